@@ -1,89 +1,530 @@
-import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { encodePlantUML, INITIAL_CODE, checkSyntaxError, DEFAULT_SERVER_URL } from './utils/plantuml';
-import CodeEditor from './components/CodeEditor';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useReducer } from 'react';
+import { encodePlantUML, checkSyntax, DEFAULT_SERVER_URL, OutputFormat } from './utils/plantuml';
+import CodeEditor, { CodeEditorHandle } from './components/CodeEditor';
 import Preview from './components/Preview';
 import SettingsDialog from './components/SettingsDialog';
+import FileTree from './components/FileTree';
+import FileMenu from './components/FileMenu';
+import DocumentTabs from './components/DocumentTabs';
+import ExternalChangeDialog from './components/ExternalChangeDialog';
+import TimelinePanel, { TimelineVersion, formatSnapshotTime } from './components/TimelinePanel';
+import DiffView from './components/DiffView';
+import OutlinePanel from './components/OutlinePanel';
+import { AppSettings, loadSettings, saveSettings } from './utils/settings';
+import { Diagnostic, EditorViewState, PreviewViewState, RenderHealth, SyntaxCheckResult, WorkspaceEntry } from './types';
+import {
+  documentsReducer,
+  createInitialDocumentsState,
+  createDocument,
+  getContent,
+  getFileName,
+  getDirectoryName,
+  resolvePath,
+  isDirty,
+  EditorDocument,
+} from './services/documents';
+import { useRender, useRenders, RenderRequest } from './services/renderStore';
+import { splitDiagramBlocks, DiagramBlock } from './utils/diagramBlocks';
+import { merge3, lineChanges } from './utils/diff';
+import { TextSelection, canUndo, canRedo } from './utils/history';
+import { TokenizedDocument, updateTokens } from './utils/lexer';
+import { collectSymbols, DocumentSymbol } from './utils/symbols';
+import { collectCompletionScopes } from './utils/completion';
+import {
+  createSession,
+  loadSession,
+  restoreDocumentsState,
+  restoreViews,
+  saveRecoverySnapshot,
+  saveSession,
+  SessionViews,
+} from './services/session';
+
+// Bounds the diff gutter's work on the UI thread (see `diffLines`)
+const GUTTER_DIFF_MAX_COST = 500;
+
+// Diagnostics are reported relative to the block that was sent; map them back to document lines
+const offsetDiagnostics = (diagnostics: Diagnostic[], block: DiagramBlock): Diagnostic[] =>
+  diagnostics.map(d => (d.line ? { ...d, line: d.line + block.startLine - 1 } : d));
+
+// Options understood only by the bundled local service: `doc` tags renders so newer versions
+// supersede queued older ones, `dir` is the directory relative !include resolves against
+const withLocalOptions = (url: string, options: { doc?: string; dir?: string | null }) => {
+  const params = new URLSearchParams();
+  if (options.doc) params.set('doc', options.doc);
+  if (options.dir) params.set('dir', options.dir);
+  const query = params.toString();
+  return query ? `${url}?${query}` : url;
+};
 
 // IPC Boilerplate for Electron
 const electron = (window as any).require ? (window as any).require('electron') : null;
 const ipcRenderer = electron ? electron.ipcRenderer : null;
 
-// Debounce helper to avoid flashing on every keystroke
-const useDebounce = <T,>(value: T, delay: number): T => {
-  const [debouncedValue, setDebouncedValue] = useState<T>(value);
+// Debounce helper to avoid flashing on every keystroke.
+// A new resetKey (e.g. switching documents) passes the value through without delay.
+const useDebounce = <T,>(value: T, delay: number, resetKey?: string): T => {
+  const [debounced, setDebounced] = useState({ value, key: resetKey });
   useEffect(() => {
     const handler = setTimeout(() => {
-      setDebouncedValue(value);
+      setDebounced({ value, key: resetKey });
     }, delay);
     return () => {
       clearTimeout(handler);
     };
-  }, [value, delay]);
-  return debouncedValue;
+  }, [value, delay, resetKey]);
+  if (debounced.key !== resetKey) {
+    // Adopt the new key right away (Derived State Pattern), debouncing resumes from here
+    setDebounced({ value, key: resetKey });
+    return value;
+  }
+  return debounced.value;
+};
+
+// Crash-recovery snapshots of the session are written this often (when something changed)
+const RECOVERY_SNAPSHOT_INTERVAL_MS = 10000;
+
+const BACKEND_LABELS: Record<AppSettings['renderBackend'], string> = {
+  local: '已连接本地服务',
+  custom: '使用自定义服务器',
+  public: '使用公共服务器',
 };
 
 const App: React.FC = () => {
-  // History Management
-  const [history, setHistory] = useState<string[]>([INITIAL_CODE]);
-  const [historyIndex, setHistoryIndex] = useState(0);
-  const lastEditTimeRef = useRef<number>(0);
-  
-  const code = history[historyIndex];
+  // Session of the last run, restored once on launch
+  const [restoredSession] = useState(loadSession);
+  const [isRecoveryNoticeOpen, setIsRecoveryNoticeOpen] = useState(!!restoredSession?.recovered);
+
+  // Open documents (tabs), each with its own history and preview position
+  const [docState, dispatch] = useReducer(
+    documentsReducer,
+    restoredSession,
+    loaded => (loaded && restoreDocumentsState(loaded.session)) || createInitialDocumentsState()
+  );
+  const activeDoc = docState.documents.find(doc => doc.id === docState.activeId) || docState.documents[0];
+
+  const code = getContent(activeDoc);
+  // Identifies this document to the render service
+  const documentId = activeDoc.id;
+  // Diagram and `newpage` page shown in Preview
+  const { activeBlockIndex, activePage } = activeDoc;
+  // Relative !include in the document resolves against its directory
+  const documentDir = activeDoc.path ? getDirectoryName(activeDoc.path) : null;
+
+  // Latest documents for IPC listeners registered once
+  const documentsRef = useRef(docState.documents);
+  documentsRef.current = docState.documents;
+
+  // Cursor/scroll and zoom/pan per document, only read when the session is saved
+  const viewsRef = useRef<SessionViews>(restoredSession ? restoreViews(restoredSession.session) : { editor: {}, preview: {} });
+  const handleEditorViewStateChange = useCallback((state: EditorViewState) => {
+    viewsRef.current.editor[documentId] = state;
+  }, [documentId]);
+  const handlePreviewViewChange = useCallback((view: PreviewViewState) => {
+    viewsRef.current.preview[documentId] = view;
+  }, [documentId]);
+
+  // Folder opened in the file tree sidebar
+  const [workspace, setWorkspace] = useState<{ root: string; entries: WorkspaceEntry[] } | null>(null);
+  // Recently opened files, stored by the main process in userData
+  const [recentFiles, setRecentFiles] = useState<string[]>([]);
+
+  // Files changed on disk while their documents had unsaved edits, waiting for the user to choose
+  const [externalChanges, setExternalChanges] = useState<{ path: string; content: string }[]>([]);
+
+  const editorRef = useRef<CodeEditorHandle>(null);
+
+  // Diagnostics from the check-only endpoint; null when unavailable (falls back to render diagnostics)
+  const [checkDiagnostics, setCheckDiagnostics] = useState<Diagnostic[] | null>(null);
 
-  const [syntaxErrorLine, setSyntaxErrorLine] = useState<number | null>(null);
+  // Persisted user preferences
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+
+  const updateSettings = useCallback((patch: Partial<AppSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
 
   // Server URL Management
-  // Initial state is empty until the backend confirms the port
-  const [serverUrl, setServerUrl] = useState<string>('');
+  // Local URL is empty until the backend confirms the port
+  const [localServerUrl, setLocalServerUrl] = useState<string>('');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [serverStatusMessage, setServerStatusMessage] = useState<string>('');
+  const [renderHealth, setRenderHealth] = useState<RenderHealth | null>(null);
+  // Port of the local service, preferred again on the next launch
+  const serverPortRef = useRef<number | null>(restoredSession?.session.serverPort ?? null);
+
+  // The URL diagrams are actually rendered with, depending on the chosen backend
+  const serverUrl = useMemo(() => {
+    switch (settings.renderBackend) {
+      case 'custom':
+        return settings.customServerUrl.trim().replace(/\/+$/, '');
+      case 'public':
+        return DEFAULT_SERVER_URL;
+      default:
+        return localServerUrl;
+    }
+  }, [settings.renderBackend, settings.customServerUrl, localServerUrl]);
 
   // Resizable Split Pane State
-  const [leftWidth, setLeftWidth] = useState(32); // Percentage - Optimized for compact toolbar
+  const [leftWidth, setLeftWidth] = useState(() => {
+    const width = restoredSession?.session.leftWidth;
+    return typeof width === 'number' && width >= 20 && width <= 80 ? width : 32; // Percentage - Optimized for compact toolbar
+  });
   const [isDragging, setIsDragging] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const debouncedCode = useDebounce(code, 500);
+  const debouncedCode = useDebounce(code, 500, documentId);
+  // Outline and completion context are computed in the renderer, so they can follow typing more closely than renders
+  const analysisDebouncedCode = useDebounce(code, 150, documentId);
 
   // Update code with history management (coalescing rapid edits)
-  const updateCode = useCallback((newCode: string, forceNew: boolean = false) => {
-    const now = Date.now();
-    const timeDiff = now - lastEditTimeRef.current;
-    const isRecent = timeDiff < 1000;
-    const isTip = historyIndex === history.length - 1;
-
-    if (!forceNew && isTip && isRecent && historyIndex > 0) {
-      // Replace current history entry (coalesce typing)
-      setHistory(prev => {
-        const newHist = [...prev];
-        newHist[historyIndex] = newCode;
-        return newHist;
-      });
+  const updateCode = useCallback((
+    newCode: string,
+    forceNew: boolean = false,
+    selection?: { before: TextSelection; after: TextSelection }
+  ) => {
+    dispatch({ type: 'edit', id: documentId, content: newCode, selection, forceNew, now: Date.now() });
+  }, [documentId]);
+
+  const handleUndo = useCallback(() => {
+    dispatch({ type: 'undo', id: documentId });
+  }, [documentId]);
+
+  const handleRedo = useCallback(() => {
+    dispatch({ type: 'redo', id: documentId });
+  }, [documentId]);
+
+  // Undo/redo put the cursor back where the edit was made
+  useEffect(() => {
+    const selection = activeDoc.restoredSelection;
+    if (selection) editorRef.current?.setSelection(selection.start, selection.end);
+  }, [activeDoc.restoredSelection]);
+
+  const setPreviewPosition = useCallback((blockIndex: number, page: number) => {
+    dispatch({ type: 'set-view', id: documentId, activeBlockIndex: blockIndex, activePage: page });
+  }, [documentId]);
+
+  // =========================================================
+  // Workspace & Documents (file access goes through the main process)
+  // =========================================================
+
+  const handleOpenFolder = async () => {
+    if (!ipcRenderer) return;
+    try {
+      const result = await ipcRenderer.invoke('open-workspace-folder');
+      if (result) setWorkspace(result);
+    } catch (e) {
+      console.error("Open folder failed", e);
+      alert("无法打开文件夹");
+    }
+  };
+
+  const handleRefreshWorkspace = async () => {
+    if (!ipcRenderer || !workspace) return;
+    try {
+      const entries = await ipcRenderer.invoke('read-workspace-tree', workspace.root);
+      setWorkspace({ root: workspace.root, entries });
+    } catch (e) {
+      console.error("Refresh workspace failed", e);
+    }
+  };
+
+  useEffect(() => {
+    if (!ipcRenderer) return;
+    ipcRenderer.invoke('get-recent-files').then(setRecentFiles).catch(() => {});
+  }, []);
+
+  const rememberRecentFile = (path: string) => {
+    ipcRenderer.invoke('add-recent-file', path).then(setRecentFiles).catch(() => {});
+  };
+
+  // Opens a file in a new tab, or switches to it if it is already open
+  const openDocument = (path: string, content: string) => {
+    const existing = documentsRef.current.find(doc => doc.path === path);
+    if (existing) {
+      dispatch({ type: 'activate', id: existing.id });
     } else {
-      // Add new history entry
-      setHistory(prev => {
-        const newHist = prev.slice(0, historyIndex + 1);
-        newHist.push(newCode);
-        return newHist;
-      });
-      setHistoryIndex(prev => prev + 1);
+      dispatch({ type: 'open', document: createDocument(content, path, getFileName(path)) });
     }
-    lastEditTimeRef.current = now;
-  }, [history, historyIndex]);
+    rememberRecentFile(path);
+  };
 
-  const handleUndo = useCallback(() => {
-    if (historyIndex > 0) {
-      setHistoryIndex(prev => prev - 1);
-      lastEditTimeRef.current = 0; // Reset coalesce timer
+  const openPath = async (path: string) => {
+    const existing = documentsRef.current.find(doc => doc.path === path);
+    if (existing) {
+      dispatch({ type: 'activate', id: existing.id });
+      return;
     }
-  }, [historyIndex]);
+    try {
+      const content: string = await ipcRenderer.invoke('read-file', path);
+      openDocument(path, content);
+    } catch (e) {
+      console.error("Read file failed", e);
+      alert(`无法读取文件: ${path}`);
+      // Drop recent entries that no longer exist
+      ipcRenderer.invoke('remove-recent-file', path).then(setRecentFiles).catch(() => {});
+    }
+  };
 
-  const handleRedo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(prev => prev + 1);
-      lastEditTimeRef.current = 0; // Reset coalesce timer
+  const handleOpenFileDialog = async () => {
+    if (!ipcRenderer) return;
+    try {
+      const result: { path: string; content: string } | null = await ipcRenderer.invoke('open-file-dialog');
+      if (result) openDocument(result.path, result.content);
+    } catch (e) {
+      console.error("Open file failed", e);
+      alert("无法打开文件");
     }
-  }, [historyIndex, history.length]);
+  };
+
+  const handleClearRecentFiles = () => {
+    ipcRenderer.invoke('clear-recent-files').then(setRecentFiles).catch(() => {});
+  };
+
+  // Resolves to false when the user cancelled the dialog or writing failed
+  const saveDocumentAs = async (doc: EditorDocument): Promise<boolean> => {
+    const content = getContent(doc);
+    try {
+      const path: string | null = await ipcRenderer.invoke('save-file-dialog', doc.path || `${doc.name}.puml`, content);
+      if (!path) return false;
+      dispatch({ type: 'saved', id: doc.id, content, path });
+      rememberRecentFile(path);
+      return true;
+    } catch (e) {
+      console.error("Save failed", e);
+      alert("保存失败");
+      return false;
+    }
+  };
+
+  const saveDocument = async (doc: EditorDocument): Promise<boolean> => {
+    if (!doc.path) return saveDocumentAs(doc);
+    const content = getContent(doc);
+    try {
+      await ipcRenderer.invoke('write-file', doc.path, content);
+      dispatch({ type: 'saved', id: doc.id, content });
+      return true;
+    } catch (e) {
+      console.error("Save failed", e);
+      alert(`保存失败: ${doc.path}`);
+      return false;
+    }
+  };
+
+  const handleSave = () => {
+    if (ipcRenderer) saveDocument(activeDoc);
+  };
+
+  const handleSaveAs = () => {
+    if (ipcRenderer) saveDocumentAs(activeDoc);
+  };
+
+  const handleCloseDocument = async (id: string) => {
+    const doc = docState.documents.find(d => d.id === id);
+    if (doc && isDirty(doc)) {
+      if (ipcRenderer) {
+        const choice: 'save' | 'discard' | 'cancel' = await ipcRenderer.invoke('confirm-close-document', doc.name);
+        if (choice === 'cancel') return;
+        if (choice === 'save' && !(await saveDocument(doc))) return;
+      } else if (!window.confirm(`"${doc.name}" 有未保存的修改，确定要关闭吗？`)) {
+        return;
+      }
+    }
+    dispatch({ type: 'close', id });
+  };
+
+  // File shortcuts: Ctrl/Cmd + O, S, Shift + S
+  const shortcutsRef = useRef({ handleOpenFileDialog, handleSave, handleSaveAs });
+  shortcutsRef.current = { handleOpenFileDialog, handleSave, handleSaveAs };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 's') {
+        e.preventDefault();
+        if (e.shiftKey) shortcutsRef.current.handleSaveAs();
+        else shortcutsRef.current.handleSave();
+      } else if (key === 'o') {
+        e.preventDefault();
+        shortcutsRef.current.handleOpenFileDialog();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // The main process asks before closing the window while these are unsaved
+  const dirtyNames = docState.documents.filter(isDirty).map(doc => doc.path || doc.name).join('\n');
+  useEffect(() => {
+    if (!ipcRenderer) return;
+    ipcRenderer.send('set-dirty-documents', dirtyNames ? dirtyNames.split('\n') : []);
+  }, [dirtyNames]);
+
+  // "Save" in the close prompt: save every dirty document, then let the window close
+  const saveDocumentRef = useRef(saveDocument);
+  saveDocumentRef.current = saveDocument;
+  useEffect(() => {
+    if (!ipcRenderer) return;
+
+    const handleSaveAllBeforeClose = async () => {
+      for (const doc of documentsRef.current.filter(isDirty)) {
+        if (!(await saveDocumentRef.current(doc))) return; // Cancelled: keep the window open
+      }
+      ipcRenderer.send('close-window');
+    };
+    ipcRenderer.on('save-all-before-close', handleSaveAllBeforeClose);
+
+    return () => {
+      ipcRenderer.removeListener('save-all-before-close', handleSaveAllBeforeClose);
+    };
+  }, []);
+
+  // Window title follows the active document
+  const activeDirty = isDirty(activeDoc);
+  useEffect(() => {
+    document.title = `${activeDoc.name}${activeDirty ? ' ●' : ''} - PlantUML Editor`;
+  }, [activeDoc.name, activeDirty]);
+
+  const dirtyPaths = useMemo(
+    () => new Set(docState.documents.filter(doc => doc.path && isDirty(doc)).map(doc => doc.path as string)),
+    [docState.documents]
+  );
+
+  // =========================================================
+  // External Changes to Open Files
+  // =========================================================
+
+  // The main process watches every open document that has a path
+  const watchedPaths = docState.documents.filter(doc => doc.path).map(doc => doc.path).join('\n');
+  useEffect(() => {
+    if (!ipcRenderer) return;
+    ipcRenderer.send('set-watched-files', watchedPaths ? watchedPaths.split('\n') : []);
+  }, [watchedPaths]);
+
+  // Only reads refs and stable setters, so listeners registered once can call it
+  const applyExternalChange = (change: { path: string; content: string }) => {
+    const doc = documentsRef.current.find(d => d.path === change.path);
+    if (!doc || change.content === doc.savedContent) return;
+    if (!isDirty(doc) || change.content === getContent(doc)) {
+      // Nothing to lose: reload silently
+      dispatch({ type: 'reload', id: doc.id, content: change.content, diskContent: change.content, now: Date.now() });
+      return;
+    }
+    // A newer change to the same file replaces the pending one
+    setExternalChanges(prev => [...prev.filter(c => c.path !== change.path), change]);
+  };
+
+  useEffect(() => {
+    if (!ipcRenderer) return;
+
+    const handleFileChanged = (_: any, change: { path: string; content: string }) => applyExternalChange(change);
+    ipcRenderer.on('file-changed', handleFileChanged);
+
+    return () => {
+      ipcRenderer.removeListener('file-changed', handleFileChanged);
+    };
+  }, []);
+
+  const externalChange = externalChanges[0] || null;
+  const externalChangeDoc = externalChange ? docState.documents.find(doc => doc.path === externalChange.path) || null : null;
+  const externalMerge = useMemo(
+    () => externalChange && externalChangeDoc
+      ? merge3(externalChangeDoc.savedContent, getContent(externalChangeDoc), externalChange.content, { mine: '我的修改', theirs: '磁盘版本' })
+      : null,
+    [externalChange, externalChangeDoc]
+  );
+
+  // Resolves the pending change with the chosen buffer; the disk content becomes the saved state
+  const resolveExternalChange = (choice: 'merge' | 'mine' | 'disk') => {
+    if (externalChange && externalChangeDoc && externalMerge) {
+      const content = choice === 'merge' ? externalMerge.text
+        : choice === 'mine' ? getContent(externalChangeDoc)
+        : externalChange.content;
+      dispatch({ type: 'reload', id: externalChangeDoc.id, content, diskContent: externalChange.content, now: Date.now() });
+    }
+    setExternalChanges(prev => prev.slice(1));
+  };
+
+  // Drop pending changes whose documents were closed
+  useEffect(() => {
+    if (externalChange && !externalChangeDoc) setExternalChanges(prev => prev.slice(1));
+  }, [externalChange, externalChangeDoc]);
+
+  // =========================================================
+  // Session Persistence
+  // =========================================================
+
+  // Files of the restored session may have changed while the app was closed
+  useEffect(() => {
+    if (!ipcRenderer || !restoredSession) return;
+    documentsRef.current.forEach(doc => {
+      if (!doc.path) return;
+      const path = doc.path;
+      ipcRenderer.invoke('read-file', path)
+        .then((content: string) => applyExternalChange({ path, content }))
+        .catch(() => {}); // Moved or deleted: keep the restored buffer
+    });
+
+    const root = restoredSession.session.workspaceRoot;
+    if (root) {
+      ipcRenderer.invoke('read-workspace-tree', root)
+        .then((entries: WorkspaceEntry[]) => setWorkspace({ root, entries }))
+        .catch(() => {});
+    }
+  }, []);
+
+  // Latest session for the snapshot timer and the exit handler
+  const discardUnsavedRef = useRef(false);
+  const buildSession = () => createSession(
+    docState,
+    viewsRef.current,
+    { leftWidth, workspaceRoot: workspace?.root ?? null, serverPort: serverPortRef.current },
+    discardUnsavedRef.current
+  );
+  const buildSessionRef = useRef(buildSession);
+  buildSessionRef.current = buildSession;
+
+  useEffect(() => {
+    let lastSnapshot = '';
+    const intervalId = setInterval(() => {
+      const session = buildSessionRef.current();
+      const serialized = JSON.stringify(session);
+      if (serialized === lastSnapshot) return;
+      lastSnapshot = serialized;
+      saveRecoverySnapshot(session);
+    }, RECOVERY_SNAPSHOT_INTERVAL_MS);
+
+    const handleBeforeUnload = () => {
+      // No snapshot after the final save, or the next launch would think the app crashed
+      clearInterval(intervalId);
+      saveSession(buildSessionRef.current());
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, []);
+
+  // "Don't save" in the close prompt: keep unsaved changes out of the session, then close
+  useEffect(() => {
+    if (!ipcRenderer) return;
+
+    const handleDiscardUnsavedBeforeClose = () => {
+      discardUnsavedRef.current = true;
+      ipcRenderer.send('close-window');
+    };
+    ipcRenderer.on('discard-unsaved-before-close', handleDiscardUnsavedBeforeClose);
+
+    return () => {
+      ipcRenderer.removeListener('discard-unsaved-before-close', handleDiscardUnsavedBeforeClose);
+    };
+  }, []);
 
   // =========================================================
   // Local Server Lifecycle Management
@@ -95,9 +536,10 @@ const App: React.FC = () => {
     // Listen for server status updates
     const handleStatus = (event: any, status: { success: boolean, port?: number, error?: string }) => {
       if (status.success && status.port) {
+        serverPortRef.current = status.port;
         const url = `http://localhost:${status.port}`;
         console.log(`[App] Server started at ${url}`);
-        setServerUrl(url);
+        setLocalServerUrl(url);
         setServerStatusMessage(`本地服务运行中 (端口: ${status.port})`);
       } else {
         console.error(`[App] Server start failed: ${status.error}`);
@@ -109,14 +551,61 @@ const App: React.FC = () => {
 
     ipcRenderer.on('local-server-status', handleStatus);
 
-    // Initial Auto-Start: Send without port to trigger auto-scan (8080-8090)
-    console.log("[App] Requesting auto-start for local server...");
-    ipcRenderer.send('start-local-server'); // No arguments = auto scan
+    return () => {
+      ipcRenderer.removeListener('local-server-status', handleStatus);
+    };
+  }, []);
+
+  // Only run the bundled jar while the local backend is selected
+  useEffect(() => {
+    if (!ipcRenderer) return;
+
+    if (settings.renderBackend === 'local') {
+      // Auto-Start: Send without port to trigger auto-scan (8080-8090), trying the last used port first
+      console.log("[App] Requesting auto-start for local server...");
+      ipcRenderer.send('start-local-server', null, serverPortRef.current);
+    } else {
+      ipcRenderer.send('stop-local-server');
+      setLocalServerUrl('');
+      setServerStatusMessage('');
+    }
+  }, [settings.renderBackend]);
+
+  // Keep the main process render cache budget in sync with settings
+  useEffect(() => {
+    if (!ipcRenderer) return;
+    ipcRenderer.send('set-render-cache-size', settings.renderCacheSizeMB * 1024 * 1024);
+  }, [settings.renderCacheSizeMB]);
+
+  useEffect(() => {
+    if (!ipcRenderer) return;
+    ipcRenderer.send('set-render-pool-size', settings.renderWorkers);
+  }, [settings.renderWorkers]);
+
+  useEffect(() => {
+    if (!ipcRenderer) return;
+    ipcRenderer.send('set-include-paths', settings.includePaths);
+  }, [settings.includePaths]);
+
+  useEffect(() => {
+    dispatch({ type: 'set-history-limit', limit: settings.undoLimit });
+  }, [settings.undoLimit]);
+
+  // Aggregate health of the local PlantUML process pool
+  useEffect(() => {
+    if (!ipcRenderer) return;
+
+    const handleHealth = (event: any, health: RenderHealth) => setRenderHealth(health);
+    ipcRenderer.on('render-health', handleHealth);
+    ipcRenderer.invoke('get-render-health').then(setRenderHealth).catch(() => {});
 
     return () => {
-      ipcRenderer.removeAllListeners('local-server-status');
+      ipcRenderer.removeListener('render-health', handleHealth);
     };
-  }, []); 
+  }, []);
+
+  // Header status: local pool problems take precedence over the plain connection state
+  const poolStatus = settings.renderBackend === 'local' && serverUrl ? renderHealth?.status : undefined;
 
   // =========================================================
 
@@ -154,42 +643,305 @@ const App: React.FC = () => {
     };
   }, [resize, stopResizing]);
 
-  // Synchronously calculate URL to avoid "Loading=false but URL=old" gap
-  const generatedUrl = useMemo(() => {
+  // Each @start block is rendered on its own
+  const blocks = useMemo(() => splitDiagramBlocks(debouncedCode), [debouncedCode]);
+  const activeIndex = Math.min(activeBlockIndex, blocks.length - 1);
+  const activeBlock = blocks[activeIndex];
+
+  // Synchronously calculate URLs to avoid "Loading=false but URL=old" gap
+  const renderRequests = useMemo<RenderRequest[]>(() => blocks.map(block => {
     // Wait until we have a valid server URL
-    if (!debouncedCode.trim() || !serverUrl) return '';
-    return encodePlantUML(debouncedCode, serverUrl);
-  }, [debouncedCode, serverUrl]);
+    if (!block.source.trim() || !serverUrl) return { url: '', source: block.source };
+    const url = encodePlantUML(block.source, serverUrl, settings.urlEncoding);
+    // Tag local renders with the document block so newer versions supersede queued older ones
+    return {
+      url: settings.renderBackend === 'local' ? withLocalOptions(url, { doc: `${documentId}-${block.index}`, dir: documentDir }) : url,
+      source: block.source,
+    };
+  }), [blocks, serverUrl, settings.urlEncoding, settings.renderBackend, documentId, documentDir]);
 
-  // Effect to check syntax error (Side Effect)
+  const activePageIndex = Math.min(activePage, activeBlock.pageCount - 1);
+
+  // Exports render the previewed diagram in another format (by default the page on screen)
+  const getExportUrl = useCallback((format: OutputFormat, page: number = activePageIndex) => {
+    if (!activeBlock.source.trim() || !serverUrl) return '';
+    const url = encodePlantUML(activeBlock.source, serverUrl, settings.urlEncoding, format, page);
+    return settings.renderBackend === 'local' ? withLocalOptions(url, { dir: documentDir }) : url;
+  }, [activeBlock, activePageIndex, serverUrl, settings.urlEncoding, settings.renderBackend, documentDir]);
+
+  // Single render pipeline: fetched once per source version, shared by Preview and validation
+  const renders = useRenders(renderRequests);
+
+  // Later pages of the active diagram are only rendered while shown
+  const pageRequest = useMemo<RenderRequest>(() => {
+    if (activePageIndex === 0 || !serverUrl) return { url: '', source: activeBlock.source };
+    const url = encodePlantUML(activeBlock.source, serverUrl, settings.urlEncoding, 'svg', activePageIndex);
+    return {
+      url: settings.renderBackend === 'local'
+        ? withLocalOptions(url, { doc: `${documentId}-${activeBlock.index}-p${activePageIndex}`, dir: documentDir })
+        : url,
+      source: activeBlock.source,
+    };
+  }, [activeBlock, activePageIndex, serverUrl, settings.urlEncoding, settings.renderBackend, documentId, documentDir]);
+  const pageRender = useRender(pageRequest.url, pageRequest.source);
+
+  const render = activePageIndex > 0 ? pageRender : renders[activeIndex];
+
+  const handleSelectBlock = (index: number) => {
+    setPreviewPosition(index, 0);
+    editorRef.current?.revealLine(blocks[index].startLine);
+  };
+
+  // Raw `-syntax` results by block source, so a pause re-checks only the blocks that changed.
+  // Reset when the server or the include directory changes.
+  const syntaxResultsRef = useRef<{ context: string; results: Map<string, SyntaxCheckResult> }>({
+    context: '',
+    results: new Map(),
+  });
+
+  // Effect to check syntax with the local check-only endpoint (Side Effect)
   useEffect(() => {
-    if (!generatedUrl) {
-      setSyntaxErrorLine(null);
+    if (settings.renderBackend !== 'local' || !serverUrl) {
+      setCheckDiagnostics(null);
       return;
     }
+    if (!debouncedCode.trim()) {
+      setCheckDiagnostics([]);
+      return;
+    }
+
+    const context = [serverUrl, settings.urlEncoding, documentDir ?? ''].join('\n');
+    if (syntaxResultsRef.current.context !== context) {
+      syntaxResultsRef.current = { context, results: new Map() };
+    }
+    const cached = syntaxResultsRef.current.results;
+
+    // Abort superseded checks so only the latest result is applied
+    const controller = new AbortController();
 
-    // Flag to prevent race conditions if multiple validations are in flight
-    let isCancelled = false;
-
-    // Check for syntax errors from the generated SVG content
-    const validateSyntax = async () => {
-      const syntaxError = await checkSyntaxError(generatedUrl);
-      
-      if (!isCancelled) {
-        if (syntaxError) {
-          setSyntaxErrorLine(syntaxError.line);
-        } else {
-          setSyntaxErrorLine(null);
+    // One block at a time: the local service starts a JVM per check
+    const checkBlocks = async () => {
+      const results: SyntaxCheckResult[] = [];
+      for (const block of blocks) {
+        const result = cached.get(block.source)
+          ?? await checkSyntax(serverUrl, block.source, settings.urlEncoding, controller.signal, documentDir);
+        if (controller.signal.aborted) return;
+        // Fall back to render diagnostics unless every block could be checked
+        if (!result) {
+          setCheckDiagnostics(null);
+          return;
         }
+        results.push(result);
       }
+
+      // Included files can change on disk without the source changing, so those are checked every time
+      syntaxResultsRef.current.results = new Map(
+        blocks
+          .map((block, i) => [block.source, results[i]] as const)
+          .filter(([source]) => !/^\s*!(include|import)/m.test(source))
+      );
+      setCheckDiagnostics(results.flatMap((result, i) => offsetDiagnostics(result.diagnostics, blocks[i])));
+    };
+    checkBlocks();
+
+    return () => {
+      controller.abort();
     };
+  }, [debouncedCode, blocks, serverUrl, settings.renderBackend, settings.urlEncoding, documentDir]);
+
+  const renderDiagnostics = useMemo(
+    () => renders.flatMap((result, i) => offsetDiagnostics(result.diagnostics, blocks[i])),
+    [renders, blocks]
+  );
+  // -syntax reports lines inside included files without naming the file; renders name it
+  const diagnostics = checkDiagnostics && !renderDiagnostics.some(d => d.include) ? checkDiagnostics : renderDiagnostics;
 
-    validateSyntax();
+  // Line to reveal once a document opened from a diagnostic becomes active
+  const pendingRevealRef = useRef<{ path: string; line: number } | null>(null);
+  useEffect(() => {
+    const pending = pendingRevealRef.current;
+    if (pending && pending.path === activeDoc.path) {
+      pendingRevealRef.current = null;
+      editorRef.current?.revealLine(pending.line);
+    }
+  }, [activeDoc.id, activeDoc.path]);
+
+  // Opens the included file a diagnostic points into, at the reported line
+  const handleOpenInclude = (diagnostic: Diagnostic) => {
+    if (!diagnostic.include || !documentDir) return;
+    const path = resolvePath(documentDir, diagnostic.include.file);
+    pendingRevealRef.current = { path, line: diagnostic.include.line };
+    openPath(path);
+  };
+
+  // Navigator entries for Preview, one per block
+  const diagramTabs = useMemo(() => blocks.map((block, i) => ({
+    label: block.title || `图 ${i + 1}`,
+    startLine: block.startLine,
+    status: renders[i].status,
+    hasErrors: renders[i].diagnostics.some(d => d.severity === 'error'),
+  })), [blocks, renders]);
+
+  // =========================================================
+  // Git (committed version of the active file)
+  // =========================================================
 
+  // HEAD version of the active document; null outside a git working tree
+  const [gitHead, setGitHead] = useState<{ path: string; status: 'tracked' | 'untracked'; content: string } | null>(null);
+  const [isHeadCompareOn, setIsHeadCompareOn] = useState(false);
+  const activePath = activeDoc.path;
+
+  // Re-read on save and when the window regains focus (a commit was probably made elsewhere)
+  useEffect(() => {
+    if (!ipcRenderer || !activePath) {
+      setGitHead(null);
+      return;
+    }
+    let cancelled = false;
+    const refresh = () => {
+      ipcRenderer.invoke('read-git-head', activePath)
+        .then((result: { status: 'tracked' | 'untracked'; content?: string } | null) => {
+          if (cancelled) return;
+          setGitHead(result ? { path: activePath, status: result.status, content: result.content || '' } : null);
+        })
+        .catch((e: any) => console.error("Failed to read git HEAD", e));
+    };
+    refresh();
+    window.addEventListener('focus', refresh);
     return () => {
-      isCancelled = true;
+      cancelled = true;
+      window.removeEventListener('focus', refresh);
     };
-  }, [generatedUrl]);
+  }, [activePath, activeDoc.savedContent]);
+
+  const headContent = gitHead?.path === activePath && gitHead.status === 'tracked' ? gitHead.content : null;
+
+  // Diff gutter against HEAD, updated with the preview; rewrites beyond the cap are marked as a whole
+  const headLineChanges = useMemo(
+    () => (headContent !== null ? lineChanges(headContent, debouncedCode, GUTTER_DIFF_MAX_COST) : undefined),
+    [headContent, debouncedCode]
+  );
+
+  // =========================================================
+  // Outline & Completion Context
+  // =========================================================
+
+  // Tokens of the source once typing pauses, re-lexed incrementally
+  const analysisTokensRef = useRef<TokenizedDocument | null>(null);
+  const analysisTokens = useMemo(() => {
+    analysisTokensRef.current = updateTokens(analysisTokensRef.current, analysisDebouncedCode.split('\n'));
+    return analysisTokensRef.current;
+  }, [analysisDebouncedCode]);
+
+  // Diagram types and declared names per block, looked up by the editor on every suggestion
+  const completionScopes = useMemo(
+    () => collectCompletionScopes(analysisDebouncedCode, analysisTokens.tokens),
+    [analysisDebouncedCode, analysisTokens]
+  );
+
+  const [isOutlineOpen, setIsOutlineOpen] = useState(false);
+  // Declared elements, refreshed when typing pauses
+  const symbols = useMemo(
+    () => (isOutlineOpen ? collectSymbols(analysisTokens.tokens) : []),
+    [isOutlineOpen, analysisTokens]
+  );
+
+  // Selects a symbol's name (or alias) in the editor; the outline may lag typing, so clamp to the buffer
+  const selectSymbol = (symbol: DocumentSymbol) => {
+    const lines = code.split('\n');
+    const lineIndex = Math.min(symbol.line, lines.length) - 1;
+    let start = 0;
+    for (let i = 0; i < lineIndex; i++) start += lines[i].length + 1;
+    const lineText = lines[lineIndex];
+    editorRef.current?.setSelection(
+      start + Math.min(symbol.column, lineText.length),
+      start + Math.min(symbol.column + symbol.length, lineText.length)
+    );
+  };
+
+  // Symbol to select once the editor is back from a version comparison
+  const pendingSymbolRef = useRef<DocumentSymbol | null>(null);
+
+  // =========================================================
+  // Snapshots & Version Comparison
+  // =========================================================
+
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  // Versions compared side by side; ends when another document is activated
+  const [comparison, setComparison] = useState<{ documentId: string; baseId: string; targetId: string } | null>(null);
+  const activeComparison = comparison?.documentId === activeDoc.id ? comparison : null;
+
+  useEffect(() => {
+    const pending = pendingSymbolRef.current;
+    if (pending && !activeComparison) {
+      pendingSymbolRef.current = null;
+      selectSymbol(pending);
+    }
+  }, [activeComparison]);
+
+  const handleSelectSymbol = (symbol: DocumentSymbol) => {
+    if (activeComparison) {
+      pendingSymbolRef.current = symbol;
+      setComparison(null);
+      return;
+    }
+    selectSymbol(symbol);
+  };
+
+  // The buffer, the file on disk and the snapshots, newest first
+  const timelineVersions = useMemo<TimelineVersion[]>(() => [
+    { id: 'current', name: '当前编辑', detail: isDirty(activeDoc) ? '未保存' : '与磁盘一致', isSnapshot: false },
+    ...(activeDoc.path ? [{ id: 'saved', name: '已保存版本', detail: getFileName(activeDoc.path), isSnapshot: false }] : []),
+    ...(headContent !== null ? [{ id: 'head', name: 'HEAD 版本', detail: 'git 最新提交', isSnapshot: false }] : []),
+    ...[...activeDoc.snapshots].reverse().map(snapshot => ({
+      id: snapshot.id,
+      name: snapshot.name,
+      detail: formatSnapshotTime(snapshot.createdAt),
+      isSnapshot: true,
+    })),
+  ], [activeDoc, headContent]);
+
+  const getVersionContent = (id: string, current: string) => {
+    if (id === 'current') return current;
+    if (id === 'saved') return activeDoc.savedContent;
+    if (id === 'head') return headContent ?? '';
+    return activeDoc.snapshots.find(snapshot => snapshot.id === id)?.content ?? '';
+  };
+  const getVersionName = (id: string) => timelineVersions.find(version => version.id === id)?.name || '';
+
+  // The compared diagram is the one shown in Preview, first page
+  const getVersionRequest = (content: string): RenderRequest => {
+    const versionBlocks = splitDiagramBlocks(content);
+    const block = versionBlocks[Math.min(activeIndex, versionBlocks.length - 1)];
+    if (!block.source.trim() || !serverUrl) return { url: '', source: block.source };
+    const url = encodePlantUML(block.source, serverUrl, settings.urlEncoding);
+    return { url: settings.renderBackend === 'local' ? withLocalOptions(url, { dir: documentDir }) : url, source: block.source };
+  };
+  const baseRequest = activeComparison ? getVersionRequest(getVersionContent(activeComparison.baseId, debouncedCode)) : { url: '', source: '' };
+  const targetRequest = activeComparison ? getVersionRequest(getVersionContent(activeComparison.targetId, debouncedCode)) : { url: '', source: '' };
+  const baseRender = useRender(baseRequest.url, baseRequest.source);
+  // HEAD next to the live preview, while the editor stays editable
+  const isComparingHead = !activeComparison && isHeadCompareOn && headContent !== null;
+  const headRequest = isComparingHead ? getVersionRequest(headContent!) : { url: '', source: '' };
+  const headRender = useRender(headRequest.url, headRequest.source);
+  const targetRender = useRender(targetRequest.url, targetRequest.source);
+
+  const handleCreateSnapshot = (name: string) => {
+    dispatch({ type: 'add-snapshot', id: activeDoc.id, name, now: Date.now() });
+  };
+
+  const handleRemoveSnapshot = (snapshotId: string) => {
+    if (!window.confirm(`删除快照“${getVersionName(snapshotId)}”？`)) return;
+    if (activeComparison && (activeComparison.baseId === snapshotId || activeComparison.targetId === snapshotId)) {
+      setComparison(null);
+    }
+    dispatch({ type: 'remove-snapshot', id: activeDoc.id, snapshotId });
+  };
+
+  // Replaces the buffer as one undo step
+  const handleRestoreVersion = (id: string) => {
+    updateCode(getVersionContent(id, code), true);
+  };
 
   return (
     <div className="flex flex-col h-screen text-slate-200 select-none" style={{ cursor: isDragging ? 'col-resize' : 'default' }}>
@@ -204,17 +956,68 @@ const App: React.FC = () => {
           <h1 className="font-bold text-lg tracking-tight text-white">
             PlantUML <span className="text-brand-500">Editor</span>
           </h1>
+          {/* Current document */}
+          <span
+            className="pl-4 text-xs text-slate-500 truncate max-w-md"
+            title={activeDoc.path || '尚未保存到磁盘'}
+          >
+            {activeDoc.path || activeDoc.name}
+            {activeDirty && <span className="ml-1.5 text-brand-400" title="有未保存的修改">●</span>}
+          </span>
         </div>
         <div className="flex items-center space-x-4 text-sm">
+          {ipcRenderer && (
+            <FileMenu
+              recentFiles={recentFiles}
+              onOpenFile={handleOpenFileDialog}
+              onOpenFolder={handleOpenFolder}
+              onSave={handleSave}
+              onSaveAs={handleSaveAs}
+              onOpenRecent={openPath}
+              onClearRecent={handleClearRecentFiles}
+            />
+          )}
+
+          <button
+            onClick={() => setIsOutlineOpen(open => !open)}
+            className={`text-xs transition-colors ${isOutlineOpen ? 'text-white' : 'text-slate-400 hover:text-white'}`}
+            title="源码中声明的参与者、类、状态等元素"
+          >
+            大纲
+          </button>
+
+          <button
+            onClick={() => setIsTimelineOpen(open => !open)}
+            className={`text-xs transition-colors ${isTimelineOpen ? 'text-white' : 'text-slate-400 hover:text-white'}`}
+            title="命名快照与版本比较"
+          >
+            时间线
+          </button>
+
+          {headContent !== null && (
+            <button
+              onClick={() => setIsHeadCompareOn(on => !on)}
+              className={`text-xs transition-colors ${isHeadCompareOn ? 'text-white' : 'text-slate-400 hover:text-white'}`}
+              title="在预览中对比 git HEAD 中提交的版本"
+            >
+              对比 HEAD
+            </button>
+          )}
+
           {/* Status Text */}
-          <span className={`text-xs ${serverUrl ? 'text-green-500' : 'text-yellow-500'} hidden md:inline-block`}>
-             {serverUrl ? '● 已连接本地服务' : '● 正在连接服务...'}
+          <span className={`text-xs ${
+              poolStatus === 'down' ? 'text-red-500'
+                : poolStatus === 'degraded' || !serverUrl ? 'text-yellow-500' : 'text-green-500'
+            } hidden md:inline-block`}>
+             {poolStatus === 'down' ? '● 渲染进程异常'
+               : poolStatus === 'degraded' ? '● 渲染进程部分异常'
+               : serverUrl ? `● ${BACKEND_LABELS[settings.renderBackend]}` : '● 正在连接服务...'}
           </span>
 
           <button 
             onClick={() => setIsSettingsOpen(true)}
             className="text-slate-400 hover:text-white transition-colors p-1.5 rounded-full hover:bg-slate-800"
-            title="配置本地端口"
+            title="配置渲染服务"
           >
             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
                 <path fillRule="evenodd" d="M7.84 1.804A1 1 0 018.82 1h2.36a1 1 0 01.98.804l.331 1.652a6.993 6.993 0 011.929 1.115l1.598-.54a1 1 0 011.186.447l1.18 2.044a1 1 0 01-.205 1.251l-1.267 1.113a7.047 7.047 0 010 2.228l1.267 1.113a1 1 0 01.206 1.25l-1.18 2.045a1 1 0 01-1.187.447l-1.598-.54a6.993 6.993 0 01-1.929 1.115l-.33 1.652a1 1 0 01-.98.804H8.82a1 1 0 01-.98-.804l-.331-1.652a6.993 6.993 0 01-1.929-1.115l-1.598.54a1 1 0 01-1.186-.447l-1.18-2.044a1 1 0 01.205-1.251l1.267-1.114a7.042 7.042 0 010-2.227L1.821 7.773a1 1 0 01-.206-1.25l1.18-2.045a1 1 0 011.187-.447l1.598.54A6.993 6.993 0 017.51 3.456l.33-1.652zM10 13a3 3 0 100-6 3 3 0 000 6z" clipRule="evenodd" />
@@ -226,6 +1029,34 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {isRecoveryNoticeOpen && (
+        <div className="flex-none flex items-center justify-between gap-4 px-6 py-1.5 bg-amber-900/30 border-b border-amber-900/50 text-xs text-amber-300">
+          <span>上次未正常退出，已从自动保存的快照恢复文档和撤销历史。</span>
+          <button
+            onClick={() => setIsRecoveryNoticeOpen(false)}
+            className="text-amber-400 hover:text-white transition-colors"
+          >
+            知道了
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 flex overflow-hidden">
+      {/* Workspace Sidebar */}
+      {workspace && (
+        <div className="w-56 shrink-0">
+          <FileTree
+            root={workspace.root}
+            entries={workspace.entries}
+            activePath={activeDoc.path}
+            dirtyPaths={dirtyPaths}
+            onOpenFile={(entry) => openPath(entry.path)}
+            onRefresh={handleRefreshWorkspace}
+            onClose={() => setWorkspace(null)}
+          />
+        </div>
+      )}
+
       {/* Main Content with Resizable Split Pane */}
       <div className="flex-1 flex overflow-hidden" ref={containerRef}>
         {/* Left Pane: Editor */}
@@ -233,19 +1064,46 @@ const App: React.FC = () => {
             className="flex flex-col z-10 shadow-xl bg-slate-900"
             style={{ width: `${leftWidth}%` }}
         >
+          <DocumentTabs
+            tabs={docState.documents.map(doc => ({ id: doc.id, name: doc.name, path: doc.path, dirty: isDirty(doc) }))}
+            activeId={activeDoc.id}
+            onSelect={(id) => dispatch({ type: 'activate', id })}
+            onClose={handleCloseDocument}
+          />
           <div className="flex-1 overflow-hidden relative">
              {/* Overlay while dragging to prevent iframe/textarea interference */}
             {isDragging && <div className="absolute inset-0 z-50 bg-transparent"></div>}
             
+            {activeComparison ? (
+            <DiffView
+              baseLabel={getVersionName(activeComparison.baseId)}
+              baseText={getVersionContent(activeComparison.baseId, code)}
+              targetLabel={getVersionName(activeComparison.targetId)}
+              targetText={getVersionContent(activeComparison.targetId, code)}
+              onClose={() => setComparison(null)}
+            />
+            ) : (
             <CodeEditor 
+              key={activeDoc.id}
+              ref={editorRef}
               code={code} 
-              onChange={(val) => updateCode(val, false)} 
-              errorLine={syntaxErrorLine}
+              onChange={(val, selection) => updateCode(val, false, selection)} 
+              diagnostics={diagnostics}
               onUndo={handleUndo}
               onRedo={handleRedo}
-              canUndo={historyIndex > 0}
-              canRedo={historyIndex < history.length - 1}
+              canUndo={canUndo(activeDoc.history)}
+              canRedo={canRedo(activeDoc.history)}
+              onImportSource={(source) => updateCode(source, true)}
+              onOpenFile={ipcRenderer ? handleOpenFileDialog : undefined}
+              onSaveFile={ipcRenderer ? handleSave : undefined}
+              onSaveFileAs={ipcRenderer ? handleSaveAs : undefined}
+              onOpenInclude={ipcRenderer && documentDir ? handleOpenInclude : undefined}
+              initialViewState={viewsRef.current.editor[activeDoc.id]}
+              onViewStateChange={handleEditorViewStateChange}
+              lineChanges={headLineChanges}
+              completionScopes={completionScopes}
             />
+            )}
           </div>
         </div>
 
@@ -267,17 +1125,79 @@ const App: React.FC = () => {
              {/* Overlay while dragging */}
              {isDragging && <div className="absolute inset-0 z-50 bg-transparent"></div>}
              
-             <Preview imageUrl={generatedUrl} isLoading={code !== debouncedCode} />
+             <Preview
+               key={activeDoc.id}
+               render={activeComparison ? targetRender : isComparingHead ? renders[activeIndex] : render}
+               isLoading={code !== debouncedCode}
+               getExportUrl={getExportUrl}
+               diagrams={diagramTabs}
+               activeDiagram={activeIndex}
+               onSelectDiagram={handleSelectBlock}
+               pageCount={activeComparison || isComparingHead ? 1 : activeBlock.pageCount}
+               activePage={activePageIndex}
+               onSelectPage={(page) => setPreviewPosition(activeIndex, page)}
+               initialView={viewsRef.current.preview[activeDoc.id]}
+               onViewChange={handlePreviewViewChange}
+               comparison={activeComparison ? {
+                 base: baseRender,
+                 baseLabel: getVersionName(activeComparison.baseId),
+                 targetLabel: getVersionName(activeComparison.targetId),
+               } : isComparingHead ? {
+                 base: headRender,
+                 baseLabel: 'HEAD',
+                 targetLabel: '工作副本',
+               } : undefined}
+             />
            </div>
         </div>
       </div>
 
+      {/* Outline Sidebar */}
+      {isOutlineOpen && (
+        <div className="w-60 shrink-0">
+          <OutlinePanel
+            symbols={symbols}
+            onSelect={handleSelectSymbol}
+            onClose={() => setIsOutlineOpen(false)}
+          />
+        </div>
+      )}
+
+      {/* Snapshot Timeline Sidebar */}
+      {isTimelineOpen && (
+        <div className="w-60 shrink-0">
+          <TimelinePanel
+            key={activeDoc.id}
+            versions={timelineVersions}
+            comparison={activeComparison}
+            onCreateSnapshot={handleCreateSnapshot}
+            onRemoveSnapshot={handleRemoveSnapshot}
+            onRestore={handleRestoreVersion}
+            onCompare={(baseId, targetId) => setComparison({ documentId: activeDoc.id, baseId, targetId })}
+            onClose={() => setIsTimelineOpen(false)}
+          />
+        </div>
+      )}
+      </div>
+
       <SettingsDialog 
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
         currentUrl={serverUrl}
-        onSave={setServerUrl}
         initialError={serverStatusMessage}
+        settings={settings}
+        onSettingsChange={updateSettings}
+        renderHealth={renderHealth}
+      />
+
+      <ExternalChangeDialog
+        isOpen={!!externalMerge}
+        fileName={externalChangeDoc?.name || ''}
+        path={externalChange?.path || ''}
+        conflicts={externalMerge?.conflicts || 0}
+        onMerge={() => resolveExternalChange('merge')}
+        onKeepMine={() => resolveExternalChange('mine')}
+        onUseDisk={() => resolveExternalChange('disk')}
       />
     </div>
   );
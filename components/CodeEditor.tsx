@@ -1,16 +1,58 @@
-import React, { useMemo, useState, useRef, useEffect } from 'react';
+import React, { useMemo, useState, useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
 import { TEMPLATES } from '../utils/templates';
 import { PUML_THEMES, applyThemeToCode, detectTheme } from '../utils/themes';
+import { decodePlantUMLUrl } from '../utils/plantuml';
+import OpenUrlDialog from './OpenUrlDialog';
+import ProblemsPanel, { SeverityIcon } from './ProblemsPanel';
+import { Diagnostic, EditorViewState } from '../types';
+import { TextSelection } from '../utils/history';
+import { LineChangeKind } from '../utils/diff';
+import { Token, TokenizedDocument, TokenType, updateTokens } from '../utils/lexer';
+import { CompletionItem, CompletionKind, CompletionScope, getCompletions } from '../utils/completion';
 
 interface CodeEditorProps {
   code: string;
-  onChange: (value: string) => void;
+  // `selection` is the cursor before and after the edit, restored by undo/redo
+  onChange: (value: string, selection?: { before: TextSelection; after: TextSelection }) => void;
   disabled?: boolean;
-  errorLine?: number | null;
+  diagnostics?: Diagnostic[];
   onUndo?: () => void;
   onRedo?: () => void;
   canUndo?: boolean;
   canRedo?: boolean;
+  onImportSource?: (source: string) => void;
+  // Native file dialogs (desktop). Without them the menu falls back to browser upload/download.
+  onOpenFile?: () => void;
+  onSaveFile?: () => void;
+  onSaveFileAs?: () => void;
+  // Opens the included file a diagnostic points into (desktop, saved documents)
+  onOpenInclude?: (diagnostic: Diagnostic) => void;
+  // Cursor and scroll position to restore on mount, and changes to it (for the session)
+  initialViewState?: EditorViewState;
+  onViewStateChange?: (state: EditorViewState) => void;
+  // Diff gutter: lines changed since the committed version
+  lineChanges?: Map<number, LineChangeKind>;
+  // Diagram types and declared names per block, computed when typing pauses
+  completionScopes?: CompletionScope[];
+}
+
+// Diff gutter: a bar beside added/changed lines, a notch above where lines were removed
+const CHANGE_MARKER_CLASSES: Record<LineChangeKind, string> = {
+  added: 'top-0 bottom-0 w-[3px] bg-green-500/80',
+  changed: 'top-0 bottom-0 w-[3px] bg-sky-500/80',
+  removed: 'top-0 h-[3px] w-2 bg-red-500/80',
+};
+
+const CHANGE_MARKER_TITLES: Record<LineChangeKind, string> = {
+  added: '自上次提交以来新增的行',
+  changed: '自上次提交以来修改的行',
+  removed: '此处有行自上次提交以来被删除',
+};
+
+// Imperative API for other panes (e.g. the diagram navigator in Preview)
+export interface CodeEditorHandle {
+  revealLine: (line: number, column?: number) => void;
+  setSelection: (start: number, end: number) => void;
 }
 
 const PLANTUML_COLORS = [
@@ -30,119 +72,107 @@ const PLANTUML_COLORS = [
   { name: '浅灰 (LightGray)', value: '#LightGray' },
 ];
 
-// Keywords for Autocompletion
-const COMPLETION_KEYWORDS = [
-  // Structure
-  "@startuml", "@enduml", "@startmindmap", "@endmindmap", "@startwbs", "@endwbs", "@startjson", "@endjson",
-  "package", "namespace", "node", "cloud", "database", "frame", "folder", "rectangle", "storage", "card",
-  
-  // Elements
-  "actor", "participant", "usecase", "class", "interface", "abstract", "enum", "component", 
-  "entity", "boundary", "control", "collections", "queue", "topic", "agent", "person", "system", "container",
-  "state", "object", "map",
-  
-  // Features
-  "autonumber", "title", "header", "footer", "legend", "caption", 
-  "skinparam", "!theme", "!include", "!define", 
-  
-  // Logic
-  "if", "then", "else", "elseif", "endif", "while", "endwhile", "repeat", "endrepeat", "fork", "endfork",
-  "start", "stop", "end", "break", "partition", "group", 
-  "activate", "deactivate", "return",
-  
-  // Arrows
-  "->", "-->",
-  
-  // Notes
-  "note", "rnote", "hnote", "left", "right", "top", "bottom", "over", "of", "as"
-];
+// Must match the leading-6 / p-4 classes of the editor layers
+const LINE_HEIGHT_PX = 24;
+const EDITOR_PADDING_PX = 16;
+// Lines rendered above and below the viewport, so fast scrolling does not show blank space
+const OVERSCAN_LINES = 20;
+
+interface DiagnosticTooltip {
+  diagnostics: Diagnostic[];
+  top: number;
+  left: number;
+}
+
+// Suggestions shown at once; the list narrows as the word is typed
+const MAX_SUGGESTIONS = 12;
+
+const SUGGESTION_BADGES: Record<CompletionKind, string> = {
+  command: 'CMD',
+  keyword: 'KW',
+  theme: 'THM',
+  color: 'CLR',
+  skinparam: 'SKN',
+  value: 'VAL',
+  symbol: 'SYM',
+};
 
 interface SuggestionState {
   isOpen: boolean;
   position: { top: number; left: number };
-  filteredList: string[];
+  filteredList: CompletionItem[];
   activeIndex: number;
   matchStart: number; // Index in code where the word starts
 }
 
-// Syntax Highlighter Logic
-const highlightSyntax = (code: string) => {
-  if (!code) return '';
-
-  // 1. Escape HTML characters first
-  let html = code
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;');
-
-  // Helper to safely replace patterns outside of HTML tags
-  // This prevents keywords (like 'class') from breaking generated HTML attributes (like class="...")
-  const safeReplace = (input: string, pattern: RegExp, replacement: string) => {
-    const source = pattern.source;
-    // Ensure global flag is set, preserve multiline if present
-    const flags = (pattern.flags.includes('m') ? 'm' : '') + 'g'; 
-    
-    // Match HTML tags OR the pattern
-    const combined = new RegExp(`(<[^>]+>)|(${source})`, flags);
-    
-    return input.replace(combined, (match, tag, content) => {
-      if (tag) return tag; // Preserve tag unchanged
-      
-      // Apply replacement to the matched content
-      // We create a new RegExp from the source to run the replacement logic (handling capture groups like $1)
-      // We remove global flag for single replacement on the content snippet
-      return content.replace(new RegExp(source, pattern.flags.replace('g', '')), replacement);
-    });
-  };
-
-  // 2. Comments: ' comment or /' comment '/
-  html = html.replace(/('.*)$/gm, '<span class="text-slate-500 italic">$1</span>');
-
-  // 3. Directives: !theme, skinparam, etc.
-  html = safeReplace(html, /^(\s*)(!theme|skinparam|!include|!define|!procedure|!function)(\s+)/m, '$1<span class="text-pink-400 font-bold">$2</span>$3');
-
-  // 4. Start/End Tags
-  html = safeReplace(html, /(@startuml|@enduml|@startsalt|@endsalt|@startmindmap|@endmindmap|@startwbs|@endwbs|@startgantt|@endgantt|@startjson|@endjson|@startyaml|@endyaml)/, '<span class="text-brand-400 font-bold">$1</span>');
-
-  // 5. Strings
-  html = safeReplace(html, /("[^"]*")/, '<span class="text-yellow-300">$1</span>');
-
-  // 6. Keywords (Participants, etc.)
-  const keywords = "actor|participant|usecase|class|interface|abstract|enum|component|database|entity|boundary|control|collections|queue|topic|node|cloud|frame|package|namespace|rectangle|storage|card|file|folder|artifact|agent|stack|hexagon|person|system|container|state|object|map|json|yaml";
-  html = safeReplace(html, new RegExp(`\\b(${keywords})\\b`), '<span class="text-purple-400 font-semibold">$1</span>');
-
-  // 7. Control Flow
-  const controls = "if|then|else|elseif|endif|while|endwhile|fork|endfork|repeat|endrepeat|start|stop|end|break|partition|group|end|note|rnote|hnote|legend|activate|deactivate|return";
-  html = safeReplace(html, new RegExp(`\\b(${controls})\\b`), '<span class="text-orange-400">$1</span>');
-
-  // 8. Relationship 'as'
-  html = safeReplace(html, /(\s+)(as)(\s+)/, '$1<span class="text-red-400 italic">$2</span>$3');
-
-  // 9. Arrows (simplified regex for common arrows)
-  html = safeReplace(html, /([-=.]+(?:>|\||\\|\/|o|x|\+)|\<[-=.]+)/, '<span class="text-blue-400 font-bold">$1</span>');
-
-  // 10. Colors in hex
-  html = safeReplace(html, /(#\w+)/, '<span class="text-emerald-300">$1</span>');
+// Highlight colors per token type (whitespace, identifiers and plain text keep the default color)
+const TOKEN_CLASSES: Partial<Record<TokenType, string>> = {
+  tag: 'text-brand-400 font-bold',
+  preprocessor: 'text-pink-400 font-bold',
+  directive: 'text-pink-400',
+  comment: 'text-slate-500 italic',
+  string: 'text-yellow-300',
+  keyword: 'text-purple-400 font-semibold',
+  control: 'text-orange-400',
+  operator: 'text-red-400 italic',
+  arrow: 'text-blue-400 font-bold',
+  color: 'text-emerald-300',
+  label: 'text-slate-200',
+};
 
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+// Highlighted HTML per line, keyed by the lexer's token arrays (reused for unchanged lines)
+const lineHtmlCache = new WeakMap<Token[], string>();
+
+// Syntax Highlighter Logic: one span per token from the PlantUML lexer
+const highlightLine = (tokens: Token[]) => {
+  let html = lineHtmlCache.get(tokens);
+  if (html === undefined) {
+    html = tokens.map(token => {
+      const className = TOKEN_CLASSES[token.type];
+      const text = escapeHtml(token.text);
+      return className ? `<span class="${className}">${text}</span>` : text;
+    }).join('');
+    lineHtmlCache.set(tokens, html);
+  }
   return html;
 };
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ 
+const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ 
   code, 
   onChange, 
   disabled, 
-  errorLine,
+  diagnostics = [],
   onUndo,
   onRedo,
   canUndo = false,
-  canRedo = false
-}) => {
+  canRedo = false,
+  onImportSource,
+  onOpenFile,
+  onSaveFile,
+  onSaveFileAs,
+  onOpenInclude,
+  initialViewState,
+  onViewStateChange,
+  lineChanges,
+  completionScopes = []
+}, ref) => {
   const [copied, setCopied] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isOpenUrlOpen, setIsOpenUrlOpen] = useState(false);
+  const [isProblemsOpen, setIsProblemsOpen] = useState(false);
+  const [tooltip, setTooltip] = useState<DiagnosticTooltip | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(() => window.innerHeight);
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const preRef = useRef<HTMLPreElement>(null);
-  const lineNumbersRef = useRef<HTMLDivElement>(null);
+  // Selection before the next edit, recorded with it for undo
+  const selectionRef = useRef<TextSelection>({ start: 0, end: 0 });
   const measureRef = useRef<HTMLDivElement>(null); // For measuring cursor position
   const fileInputRef = useRef<HTMLInputElement>(null); // For file import
   const menuRef = useRef<HTMLDivElement>(null); // For dropdown menu
@@ -193,12 +223,13 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     const replaceEnd = end + endOffset;
 
     const newCode = code.substring(0, replaceStart) + text + code.substring(replaceEnd);
-    onChange(newCode);
+    const newCursorPos = replaceStart + text.length;
+    onChange(newCode, { before: { start, end }, after: { start: newCursorPos, end: newCursorPos } });
+    selectionRef.current = { start: newCursorPos, end: newCursorPos };
     
     // Restore cursor position
     requestAnimationFrame(() => {
       if (textareaRef.current) {
-        const newCursorPos = replaceStart + text.length;
         textareaRef.current.selectionStart = textareaRef.current.selectionEnd = newCursorPos;
         textareaRef.current.focus();
         // Close suggestions after insert
@@ -293,7 +324,11 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
 
   // File Import Handler
   const triggerFileUpload = () => {
-    fileInputRef.current?.click();
+    if (onOpenFile) {
+      onOpenFile();
+    } else {
+      fileInputRef.current?.click();
+    }
     setIsMenuOpen(false);
   };
 
@@ -313,8 +348,39 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     e.target.value = '';
   };
 
+  // Open from URL Handler
+  const triggerOpenUrl = () => {
+    setIsOpenUrlOpen(true);
+    setIsMenuOpen(false);
+  };
+
+  const handleImportSource = (source: string) => {
+    if (onImportSource) {
+      onImportSource(source);
+    } else {
+      onChange(source);
+    }
+  };
+
+  // Paste detection: a pasted PlantUML server link is decoded and loaded instead of inserted
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const text = e.clipboardData.getData('text/plain').trim();
+    if (!text || /\s/.test(text) || !/^https?:\/\//i.test(text)) return;
+
+    const source = decodePlantUMLUrl(text);
+    if (source) {
+      e.preventDefault();
+      handleImportSource(source);
+    }
+  };
+
   // File Export Handler
   const handleFileDownload = () => {
+      if (onSaveFile) {
+          onSaveFile();
+          setIsMenuOpen(false);
+          return;
+      }
       const blob = new Blob([code], { type: 'text/plain;charset=utf-8' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -328,21 +394,22 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   };
 
   // Autocomplete Logic: Get Cursor Coordinates
-  const updateCursorPosition = (cursorIndex: number) => {
+  const updateCursorPosition = (value: string, cursorIndex: number) => {
     if (!textareaRef.current || !measureRef.current) return { top: 0, left: 0 };
 
-    const textBeforeCursor = code.substring(0, cursorIndex);
-    
+    // Only the cursor's line is mirrored; the lines above it all have the same height
+    const lineStart = value.lastIndexOf('\n', cursorIndex - 1) + 1;
+    let lineIndex = 0;
+    for (let i = 0; i < lineStart; i++) {
+        if (value.charCodeAt(i) === 10) lineIndex++;
+    }
+
     // We use a hidden div that mirrors the textarea styles exactly to measure position
-    measureRef.current.innerHTML = textBeforeCursor
-        .replace(/\n$/g, '\n\u200b') // Handle trailing newline
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;') + '<span id="caret">|</span>';
+    measureRef.current.innerHTML = escapeHtml(value.substring(lineStart, cursorIndex)) + '<span id="caret">|</span>';
 
     const caret = measureRef.current.querySelector('#caret') as HTMLElement;
     if (caret) {
-        const top = caret.offsetTop - (textareaRef.current.scrollTop || 0);
+        const top = caret.offsetTop + lineIndex * LINE_HEIGHT_PX - (textareaRef.current.scrollTop || 0);
         const left = caret.offsetLeft - (textareaRef.current.scrollLeft || 0);
         
         // Adjust line height for visual placement (below the cursor)
@@ -352,40 +419,18 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   };
 
   const checkSuggestions = (value: string, cursorIndex: number) => {
-    // Find the word being typed currently
-    // Look backwards from cursor until whitespace or forbidden char
-    // Added - and > and . to allowed characters for detection to support arrows
-    let i = cursorIndex - 1;
-    while (i >= 0 && /[\w!@\->.]/.test(value[i])) {
-        i--;
-    }
-    // i is now at the index BEFORE the word, or -1
-    const startIdx = i + 1;
-    const currentWord = value.substring(startIdx, cursorIndex);
-
-    if (currentWord.length < 1) {
-        setSuggestions(prev => ({ ...prev, isOpen: false }));
-        return;
-    }
-    
-    // If it's a very short word, only trigger for symbols like - or @
-    if (currentWord.length < 2 && !/^[-@!]/.test(currentWord)) {
-         setSuggestions(prev => ({ ...prev, isOpen: false }));
-         return;
-    }
-
-    const matches = COMPLETION_KEYWORDS.filter(k => 
-        k.toLowerCase().startsWith(currentWord.toLowerCase()) && k !== currentWord
-    );
+    // Tokens of the new text; the render after this change reuses them
+    tokenizedRef.current = updateTokens(tokenizedRef.current, value.split('\n'));
+    const completions = getCompletions(value, cursorIndex, tokenizedRef.current, completionScopes);
 
-    if (matches.length > 0) {
-        const pos = updateCursorPosition(cursorIndex);
+    if (completions) {
+        const pos = updateCursorPosition(value, cursorIndex);
         setSuggestions({
             isOpen: true,
             position: pos,
-            filteredList: matches.slice(0, 8), // Limit to 8 suggestions
+            filteredList: completions.items.slice(0, MAX_SUGGESTIONS),
             activeIndex: 0,
-            matchStart: startIdx
+            matchStart: completions.from
         });
     } else {
         setSuggestions(prev => ({ ...prev, isOpen: false }));
@@ -393,10 +438,10 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   };
 
   const confirmSuggestion = (index: number) => {
-    const word = suggestions.filteredList[index];
-    if (word) {
+    const item = suggestions.filteredList[index];
+    if (item) {
         const currentLen = code.substring(suggestions.matchStart, textareaRef.current?.selectionStart || 0).length;
-        insertText(word, currentLen, 0);
+        insertText(item.label, currentLen, 0);
     }
   };
 
@@ -462,22 +507,38 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
 
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
       const val = e.target.value;
-      onChange(val);
+      const after = { start: e.target.selectionStart, end: e.target.selectionEnd };
+      onChange(val, { before: selectionRef.current, after });
+      selectionRef.current = after;
       checkSuggestions(val, e.target.selectionStart);
   };
 
+  const handleSelect = () => {
+    const textarea = textareaRef.current;
+    if (textarea) selectionRef.current = { start: textarea.selectionStart, end: textarea.selectionEnd };
+    reportViewState();
+  };
+
+  const reportViewState = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || !onViewStateChange) return;
+    onViewStateChange({
+      selectionStart: textarea.selectionStart,
+      selectionEnd: textarea.selectionEnd,
+      scrollTop: textarea.scrollTop,
+      scrollLeft: textarea.scrollLeft,
+    });
+  };
+
   // Sync scrolling between textarea, pre (highlighter), and line numbers
   const handleScroll = () => {
     if (textareaRef.current) {
       const { scrollTop, scrollLeft } = textareaRef.current;
+      setScrollTop(scrollTop);
+      setScrollLeft(scrollLeft);
+      setTooltip(null);
+      reportViewState();
       
-      if (lineNumbersRef.current) {
-        lineNumbersRef.current.scrollTop = scrollTop;
-      }
-      if (preRef.current) {
-        preRef.current.scrollTop = scrollTop;
-        preRef.current.scrollLeft = scrollLeft;
-      }
       // Close suggestions on scroll to avoid detached UI
       if (suggestions.isOpen) {
           setSuggestions(prev => ({...prev, isOpen: false}));
@@ -488,8 +549,128 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   // Calculate line numbers
   const lines = useMemo(() => code.split('\n'), [code]);
 
+  // Re-lex only the lines an edit affects
+  const tokenizedRef = useRef<TokenizedDocument | null>(null);
+  const tokenized = useMemo(() => {
+    tokenizedRef.current = updateTokens(tokenizedRef.current, lines);
+    return tokenizedRef.current;
+  }, [lines]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const observer = new ResizeObserver(() => setViewportHeight(textarea.clientHeight));
+    observer.observe(textarea);
+    return () => observer.disconnect();
+  }, []);
+
+  // Only the lines in view (plus overscan) are rendered in the highlight layer and gutter
+  const firstVisibleLine = Math.max(0, Math.floor((scrollTop - EDITOR_PADDING_PX) / LINE_HEIGHT_PX) - OVERSCAN_LINES);
+  const lastVisibleLine = Math.min(lines.length, Math.ceil((scrollTop + viewportHeight) / LINE_HEIGHT_PX) + OVERSCAN_LINES);
+  const visibleOffset = firstVisibleLine * LINE_HEIGHT_PX - scrollTop;
+
+  // Diagnostics grouped by line; errors take precedence over warnings for markers
+  const diagnosticsByLine = useMemo(() => {
+    const map = new Map<number, Diagnostic[]>();
+    diagnostics.forEach(d => {
+      if (!d.line) return;
+      map.set(d.line, [...(map.get(d.line) || []), d]);
+    });
+    return map;
+  }, [diagnostics]);
+
+  const lineSeverity = (lineNum: number): Diagnostic['severity'] | null => {
+    const list = diagnosticsByLine.get(lineNum);
+    if (!list) return null;
+    return list.some(d => d.severity === 'error') ? 'error' : 'warning';
+  };
+
+  // Open the problems panel automatically when new errors appear
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  useEffect(() => {
+    if (errorCount > 0) setIsProblemsOpen(true);
+  }, [errorCount]);
+
+  // Select a line (or a column within it) and scroll it into view
+  const revealLine = (line: number, column?: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const lineIndex = Math.min(Math.max(line, 1), lines.length) - 1;
+    let start = 0;
+    for (let i = 0; i < lineIndex; i++) start += lines[i].length + 1;
+    const end = start + lines[lineIndex].length;
+
+    textarea.focus();
+    textarea.setSelectionRange(column ? Math.min(start + column - 1, end) : start, end);
+    textarea.scrollTop = Math.max(0, lineIndex * LINE_HEIGHT_PX - textarea.clientHeight / 2);
+    handleScroll();
+  };
+
+  // Place the cursor (e.g. after undo/redo), scrolling its line into view if needed
+  const setSelection = (start: number, end: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+    selectionRef.current = { start, end };
+    const lineIndex = code.slice(0, start).split('\n').length - 1;
+    const lineTop = lineIndex * LINE_HEIGHT_PX;
+    if (lineTop < textarea.scrollTop || lineTop + LINE_HEIGHT_PX > textarea.scrollTop + textarea.clientHeight) {
+      textarea.scrollTop = Math.max(0, lineTop - textarea.clientHeight / 2);
+    }
+    handleScroll();
+  };
+
+  useImperativeHandle(ref, () => ({ revealLine, setSelection }));
+
+  // Restore the cursor and scroll position saved with the session
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !initialViewState) return;
+    textarea.setSelectionRange(
+      Math.min(initialViewState.selectionStart, code.length),
+      Math.min(initialViewState.selectionEnd, code.length)
+    );
+    textarea.scrollTop = initialViewState.scrollTop;
+    textarea.scrollLeft = initialViewState.scrollLeft;
+    handleScroll();
+  }, []);
+
+  const handleSelectDiagnostic = (d: Diagnostic) => {
+    if (d.include && onOpenInclude) onOpenInclude(d);
+    else if (d.line) revealLine(d.line, d.column);
+  };
+
+  // Show a tooltip when hovering a line that has diagnostics
+  const showTooltipAt = (lineNum: number, top: number, left: number) => {
+    const list = diagnosticsByLine.get(lineNum);
+    if (list) {
+      setTooltip({ diagnostics: list, top, left });
+    } else if (tooltip) {
+      setTooltip(null);
+    }
+  };
+
+  const handleEditorMouseMove = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    if (diagnosticsByLine.size === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const y = e.clientY - rect.top + e.currentTarget.scrollTop - EDITOR_PADDING_PX;
+    const lineNum = Math.floor(y / LINE_HEIGHT_PX) + 1;
+    showTooltipAt(lineNum, e.clientY - rect.top + 16, e.clientX - rect.left + 8);
+  };
+
+  const handleGutterMouseEnter = (lineNum: number) => {
+    const top = (lineNum - 1) * LINE_HEIGHT_PX + EDITOR_PADDING_PX - scrollTop + LINE_HEIGHT_PX;
+    showTooltipAt(lineNum, top, 8);
+  };
+
   // Generate highlighted HTML
-  const highlightedCode = useMemo(() => highlightSyntax(code), [code]);
+  const highlightedCode = useMemo(
+    () => tokenized.tokens.slice(firstVisibleLine, lastVisibleLine).map(highlightLine).join('\n'),
+    [tokenized, firstVisibleLine, lastVisibleLine]
+  );
 
   return (
     <div className="flex flex-col h-full bg-slate-900 border-r border-slate-800">
@@ -636,7 +817,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                 </button>
                 
                 {isMenuOpen && (
-                    <div className="absolute right-0 top-full mt-1 w-32 bg-slate-800 border border-slate-700 rounded shadow-xl z-50 overflow-hidden flex flex-col py-1 animate-in fade-in slide-in-from-top-2 duration-150">
+                    <div className="absolute right-0 top-full mt-1 w-36 bg-slate-800 border border-slate-700 rounded shadow-xl z-50 overflow-hidden flex flex-col py-1 animate-in fade-in slide-in-from-top-2 duration-150">
                         <button 
                             onClick={triggerFileUpload}
                             className="flex items-center gap-2 px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 hover:text-white w-full text-left"
@@ -644,7 +825,17 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
                                 <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
                             </svg>
-                            导入文件
+                            {onOpenFile ? '打开文件...' : '导入文件'}
+                        </button>
+                        <button
+                            onClick={triggerOpenUrl}
+                            className="flex items-center gap-2 px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 hover:text-white w-full text-left"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+                                <path d="M12.232 4.232a2.5 2.5 0 013.536 3.536l-1.225 1.224a.75.75 0 001.061 1.06l1.224-1.224a4 4 0 00-5.656-5.656l-3 3a4 4 0 00.225 5.865.75.75 0 00.977-1.138 2.5 2.5 0 01-.142-3.667l3-3z" />
+                                <path d="M11.603 7.963a.75.75 0 00-.977 1.138 2.5 2.5 0 01.142 3.667l-3 3a2.5 2.5 0 01-3.536-3.536l1.225-1.224a.75.75 0 00-1.061-1.06l-1.224 1.224a4 4 0 105.656 5.656l3-3a4 4 0 00-.225-5.865z" />
+                            </svg>
+                            从 URL 打开
                         </button>
                         <button
                             onClick={handleFileDownload}
@@ -653,8 +844,22 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
                                 <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 6.707a1 1 0 010-1.414l3-3a1 1 0 011.414 0l3 3a1 1 0 01-1.414 1.414L11 5.414V13a1 1 0 11-2 0V5.414L7.707 6.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
                             </svg>
-                            导出文件
+                            {onSaveFile ? '保存' : '导出文件'}
                         </button>
+                        {onSaveFileAs && (
+                            <button
+                                onClick={() => {
+                                    onSaveFileAs();
+                                    setIsMenuOpen(false);
+                                }}
+                                className="flex items-center gap-2 px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 hover:text-white w-full text-left"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+                                    <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zM6.293 6.707a1 1 0 010-1.414l3-3a1 1 0 011.414 0l3 3a1 1 0 01-1.414 1.414L11 5.414V13a1 1 0 11-2 0V5.414L7.707 6.707a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                                </svg>
+                                另存为...
+                            </button>
+                        )}
                     </div>
                 )}
             </div>
@@ -673,29 +878,42 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
       <div className="relative flex-1 overflow-hidden flex">
         {/* Line Numbers */}
         <div 
-          ref={lineNumbersRef}
-          className="bg-slate-900 text-right select-none py-4 pr-0 border-r border-slate-800 overflow-hidden shrink-0 z-10"
+          className="bg-slate-900 text-right select-none pr-0 border-r border-slate-800 overflow-hidden shrink-0 z-10"
           style={{ minWidth: '3.5rem' }}
         >
-          {lines.map((_, i) => {
-            const lineNum = i + 1;
-            const isError = errorLine === lineNum;
+          <div className="py-4" style={{ transform: `translateY(${visibleOffset}px)` }}>
+          {lines.slice(firstVisibleLine, lastVisibleLine).map((_, i) => {
+            const lineNum = firstVisibleLine + i + 1;
+            const severity = lineSeverity(lineNum);
+            const change = lineChanges?.get(lineNum);
             return (
               <div 
-                key={i} 
-                className={`font-mono text-sm leading-6 transition-colors duration-200 flex justify-end items-center pr-2 ${
-                  isError 
+                key={lineNum} 
+                className={`relative font-mono text-sm leading-6 transition-colors duration-200 flex justify-end items-center pr-2 ${
+                  severity === 'error'
                     ? 'text-red-300 font-bold' 
-                    : 'text-slate-600'
+                    : severity === 'warning' ? 'text-amber-300' : 'text-slate-600'
                 }`}
+                onMouseEnter={severity ? () => handleGutterMouseEnter(lineNum) : undefined}
+                onMouseLeave={severity ? () => setTooltip(null) : undefined}
               >
-                {isError && (
+                {severity === 'error' && (
                    <span className="w-1.5 h-1.5 bg-red-500 rounded-full mr-1.5 animate-pulse shadow-[0_0_8px_rgba(239,68,68,0.6)]"></span>
                 )}
+                {severity === 'warning' && (
+                   <span className="w-1.5 h-1.5 bg-amber-400 rounded-full mr-1.5"></span>
+                )}
                 {lineNum}
+                {change && (
+                  <span
+                    className={`absolute right-0 ${CHANGE_MARKER_CLASSES[change]}`}
+                    title={CHANGE_MARKER_TITLES[change]}
+                  />
+                )}
               </div>
             );
           })}
+          </div>
         </div>
 
         {/* Editor Overlay Container */}
@@ -708,13 +926,14 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                 className="absolute top-0 left-0 w-full p-4 font-mono text-sm leading-6 whitespace-pre bg-transparent text-transparent pointer-events-none overflow-hidden -z-50 opacity-0"
             />
 
-            {/* Syntax Highlight Layer (Background) */}
-            <pre
-                ref={preRef}
-                aria-hidden="true"
-                className="absolute inset-0 w-full h-full p-4 m-0 font-mono text-sm leading-6 whitespace-pre overflow-auto pointer-events-none bg-slate-900 text-slate-300"
-                dangerouslySetInnerHTML={{ __html: highlightedCode + '<br/>' }} 
-            />
+            {/* Syntax Highlight Layer (Background): the visible lines, moved with the textarea's scroll */}
+            <div aria-hidden="true" className="absolute inset-0 overflow-hidden pointer-events-none bg-slate-900">
+                <pre
+                    className="p-4 m-0 font-mono text-sm leading-6 whitespace-pre text-slate-300"
+                    style={{ transform: `translate(${-scrollLeft}px, ${visibleOffset}px)` }}
+                    dangerouslySetInnerHTML={{ __html: highlightedCode + '<br/>' }} 
+                />
+            </div>
 
             {/* Actual Textarea (Foreground) */}
             <textarea
@@ -725,6 +944,10 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                 onChange={handleChange}
                 onKeyDown={handleKeyDown}
                 onScroll={handleScroll}
+                onSelect={handleSelect}
+                onPaste={handlePaste}
+                onMouseMove={handleEditorMouseMove}
+                onMouseLeave={() => setTooltip(null)}
                 spellCheck={false}
                 placeholder="@startuml..."
                 disabled={disabled}
@@ -745,7 +968,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                     <ul className="overflow-auto py-1">
                         {suggestions.filteredList.map((item, idx) => (
                             <li 
-                                key={item}
+                                key={`${item.kind}:${item.label}`}
                                 className={`px-3 py-1.5 text-xs font-mono cursor-pointer flex items-center gap-2 ${
                                     idx === suggestions.activeIndex 
                                         ? 'bg-brand-600 text-white' 
@@ -754,30 +977,78 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
                                 onClick={() => confirmSuggestion(idx)}
                                 onMouseEnter={() => setSuggestions(prev => ({...prev, activeIndex: idx}))}
                             >
-                                <span className="opacity-50 text-[10px]">
-                                    {item.startsWith('@') ? 'CMD' : 'KW'}
+                                <span className="opacity-50 text-[10px] w-7 shrink-0">
+                                    {SUGGESTION_BADGES[item.kind]}
                                 </span>
-                                {item}
+                                <span className="flex-1">{item.label}</span>
+                                {item.detail && (
+                                    <span className="opacity-50 text-[10px] font-sans truncate max-w-[140px]">{item.detail}</span>
+                                )}
                             </li>
                         ))}
                     </ul>
                 </div>
             )}
 
-            {/* Error Line Background Indicator */}
-            {errorLine && lines[errorLine - 1] !== undefined && (
+            {/* Diagnostic Line Background Indicators */}
+            {Array.from(diagnosticsByLine.keys())
+                .filter(lineNum => lineNum > firstVisibleLine && lineNum <= lastVisibleLine)
+                .map(lineNum => (
                 <div 
-                    className="absolute left-0 right-0 bg-red-500/10 pointer-events-none z-0 border-y border-red-500/20"
+                    key={lineNum}
+                    className={`absolute left-0 right-0 pointer-events-none z-0 border-y ${
+                        lineSeverity(lineNum) === 'error'
+                            ? 'bg-red-500/10 border-red-500/20'
+                            : 'bg-amber-500/10 border-amber-500/20'
+                    }`}
                     style={{ 
-                        top: `${(errorLine - 1) * 1.5 + 1}rem`, 
-                        height: '1.5rem' 
+                        top: (lineNum - 1) * LINE_HEIGHT_PX + EDITOR_PADDING_PX - scrollTop, 
+                        height: LINE_HEIGHT_PX 
                     }}
                 />
+            ))}
+
+            {/* Diagnostic Hover Tooltip */}
+            {tooltip && (
+                <div
+                    className="absolute z-50 max-w-sm bg-slate-800 border border-slate-700 rounded shadow-xl px-3 py-2 pointer-events-none space-y-1.5"
+                    style={{ top: tooltip.top, left: tooltip.left }}
+                >
+                    {tooltip.diagnostics.map((d, i) => (
+                        <div key={i} className="flex items-start gap-2 text-xs">
+                            <SeverityIcon severity={d.severity} />
+                            <div>
+                                <div className="text-slate-200">{d.message}</div>
+                                {d.include && (
+                                    <div className="text-slate-400 font-mono">{d.include.file}:{d.include.line}</div>
+                                )}
+                                {d.hints.map((hint, j) => (
+                                    <div key={j} className="text-slate-400">建议: {hint}</div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
             )}
         </div>
       </div>
+
+      <ProblemsPanel
+        diagnostics={diagnostics}
+        isOpen={isProblemsOpen}
+        onToggle={() => setIsProblemsOpen(prev => !prev)}
+        onSelect={handleSelectDiagnostic}
+      />
+
+      <OpenUrlDialog
+        isOpen={isOpenUrlOpen}
+        onClose={() => setIsOpenUrlOpen(false)}
+        onOpen={handleImportSource}
+      />
     </div>
   );
-};
+});
+
+CodeEditor.displayName = 'CodeEditor';
 
 export default CodeEditor;
\ No newline at end of file
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { alignLines, DiffRow } from '../utils/diff';
+
+interface DiffViewProps {
+  baseLabel: string;
+  baseText: string;
+  targetLabel: string;
+  targetText: string;
+  onClose: () => void;
+}
+
+const OLD_CLASSES: Record<DiffRow['type'], string> = {
+  equal: '',
+  delete: 'bg-red-900/30',
+  change: 'bg-red-900/30',
+  insert: 'bg-slate-800/40',
+};
+
+const NEW_CLASSES: Record<DiffRow['type'], string> = {
+  equal: '',
+  insert: 'bg-green-900/30',
+  change: 'bg-green-900/30',
+  delete: 'bg-slate-800/40',
+};
+
+/**
+ * Read-only side-by-side text diff of two versions of a document.
+ */
+const DiffView: React.FC<DiffViewProps> = ({ baseLabel, baseText, targetLabel, targetText, onClose }) => {
+  const rows = useMemo(() => alignLines(baseText, targetText), [baseText, targetText]);
+
+  const removed = rows.filter(row => row.type === 'delete' || row.type === 'change').length;
+  const added = rows.filter(row => row.type === 'insert' || row.type === 'change').length;
+
+  const renderSide = (line: number | null, text: string, className: string, marker: string) => (
+    <div className={`flex min-w-0 ${className}`}>
+      <span className="w-10 shrink-0 pr-2 text-right text-slate-600 select-none">{line ?? ''}</span>
+      <span className="w-3 shrink-0 text-slate-500 select-none">{line !== null ? marker : ''}</span>
+      <span className="whitespace-pre overflow-hidden text-ellipsis">{text}</span>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900">
+      <div className="flex items-center justify-between gap-3 px-4 h-10 bg-slate-800 border-b border-slate-700 shrink-0">
+        <div className="flex items-center gap-2 min-w-0 text-xs">
+          <span className="text-red-400 truncate" title={baseLabel}>A: {baseLabel}</span>
+          <span className="text-slate-500">→</span>
+          <span className="text-green-400 truncate" title={targetLabel}>B: {targetLabel}</span>
+          <span className="text-slate-500 font-mono whitespace-nowrap">+{added} −{removed}</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-xs text-slate-400 hover:text-white transition-colors whitespace-nowrap"
+        >
+          退出比较
+        </button>
+      </div>
+
+      {added === 0 && removed === 0 ? (
+        <p className="p-4 text-sm text-slate-500">两个版本的内容相同。</p>
+      ) : (
+        <div className="flex-1 overflow-auto font-mono text-xs leading-5 text-slate-300">
+          {rows.map((row, i) => (
+            <div key={i} className="grid grid-cols-2 divide-x divide-slate-800">
+              {renderSide(row.oldLine, row.oldText, OLD_CLASSES[row.type], row.type === 'equal' ? '' : '-')}
+              {renderSide(row.newLine, row.newText, NEW_CLASSES[row.type], row.type === 'equal' ? '' : '+')}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,55 @@
+import React from 'react';
+
+export interface DocumentTab {
+  id: string;
+  name: string;
+  path: string | null;
+  dirty: boolean;
+}
+
+interface DocumentTabsProps {
+  tabs: DocumentTab[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+}
+
+const DocumentTabs: React.FC<DocumentTabsProps> = ({ tabs, activeId, onSelect, onClose }) => (
+  <div className="flex items-stretch h-8 bg-slate-950 border-b border-slate-800 shrink-0 overflow-x-auto select-none">
+    {tabs.map(tab => {
+      const isActive = tab.id === activeId;
+      return (
+        <div
+          key={tab.id}
+          onClick={() => onSelect(tab.id)}
+          onAuxClick={e => {
+            // Middle click closes, as in browsers
+            if (e.button === 1) onClose(tab.id);
+          }}
+          className={`group flex items-center gap-1.5 pl-3 pr-1.5 text-xs border-r border-slate-800 cursor-pointer whitespace-nowrap ${
+            isActive ? 'bg-slate-900 text-white border-t-2 border-t-brand-500' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-900/60'
+          }`}
+          title={tab.path || tab.name}
+        >
+          <span>{tab.name}</span>
+          <button
+            onClick={e => {
+              e.stopPropagation();
+              onClose(tab.id);
+            }}
+            className="w-4 h-4 flex items-center justify-center rounded hover:bg-slate-700"
+            title="关闭"
+          >
+            {/* Dirty documents show a dot that turns into the close button on hover */}
+            {tab.dirty && <span className="text-brand-400 group-hover:hidden">●</span>}
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className={`w-3 h-3 ${tab.dirty ? 'hidden group-hover:block' : isActive ? '' : 'invisible group-hover:visible'}`}>
+              <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+            </svg>
+          </button>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default DocumentTabs;
@@ -0,0 +1,75 @@
+import React from 'react';
+
+interface ExternalChangeDialogProps {
+  isOpen: boolean;
+  fileName: string;
+  path: string;
+  conflicts: number; // Conflicting regions a merge would leave marked in the text
+  onMerge: () => void;
+  onKeepMine: () => void;
+  onUseDisk: () => void;
+}
+
+// Shown when a document with unsaved edits changes on disk
+const ExternalChangeDialog: React.FC<ExternalChangeDialogProps> = ({
+  isOpen,
+  fileName,
+  path,
+  conflicts,
+  onMerge,
+  onKeepMine,
+  onUseDisk
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-lg flex flex-col animate-in fade-in zoom-in duration-200">
+
+        <div className="px-6 py-4 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-white">文件已在外部修改</h2>
+        </div>
+
+        <div className="p-6 space-y-4">
+            <p className="text-sm text-slate-400">
+                <span className="text-slate-200">{fileName}</span> 在磁盘上被修改，而编辑器中还有未保存的修改。
+            </p>
+            <div className="text-xs text-slate-500 font-mono truncate" title={path}>{path}</div>
+
+            <div className={`p-3 rounded text-xs border ${conflicts > 0 ? 'bg-amber-900/20 border-amber-900/50 text-amber-300' : 'bg-slate-800/50 border-slate-700 text-slate-300'}`}>
+                {conflicts > 0
+                  ? `合并时有 ${conflicts} 处冲突，两个版本都会以冲突标记（<<<<<<< / ======= / >>>>>>>）写入编辑器，需要手动处理。`
+                  : '两处修改互不冲突，可以自动合并。'}
+            </div>
+
+            <p className="text-xs text-slate-500">
+                载入磁盘版本或合并结果会作为一步新的历史记录，可以撤销。
+            </p>
+
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={onUseDisk}
+                    className="text-sm rounded px-4 py-2 text-slate-300 hover:text-white hover:bg-slate-800 transition-colors"
+                >
+                    使用磁盘版本
+                </button>
+                <button
+                    onClick={onKeepMine}
+                    className="text-sm rounded px-4 py-2 text-slate-300 hover:text-white hover:bg-slate-800 transition-colors"
+                >
+                    保留我的修改
+                </button>
+                <button
+                    onClick={onMerge}
+                    className="text-sm font-medium rounded px-4 py-2 bg-brand-600 hover:bg-brand-500 text-white transition-all"
+                >
+                    合并
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExternalChangeDialog;
@@ -0,0 +1,97 @@
+import React, { useState, useRef, useEffect } from 'react';
+
+interface FileMenuProps {
+  recentFiles: string[];
+  onOpenFile: () => void;
+  onOpenFolder: () => void;
+  onSave: () => void;
+  onSaveAs: () => void;
+  onOpenRecent: (path: string) => void;
+  onClearRecent: () => void;
+}
+
+const MENU_ITEM_CLASS = 'flex items-center justify-between gap-4 px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 hover:text-white w-full text-left';
+
+const FileMenu: React.FC<FileMenuProps> = ({
+  recentFiles,
+  onOpenFile,
+  onOpenFolder,
+  onSave,
+  onSaveAs,
+  onOpenRecent,
+  onClearRecent
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu on click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // Run an action and close the menu
+  const select = (action: () => void) => () => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`text-xs flex items-center gap-1.5 px-2 py-1 rounded transition-colors ${isOpen ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+        title="文件"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+          <path d="M3.75 3A1.75 1.75 0 002 4.75v3.26a3.235 3.235 0 011.75-.51h12.5c.644 0 1.245.188 1.75.51V6.75A1.75 1.75 0 0016.25 5h-4.836a.25.25 0 01-.177-.073L9.823 3.513A1.75 1.75 0 008.586 3H3.75zM3.75 9A1.75 1.75 0 002 10.75v4.5c0 .966.784 1.75 1.75 1.75h12.5A1.75 1.75 0 0018 15.25v-4.5A1.75 1.75 0 0016.25 9H3.75z" />
+        </svg>
+        文件
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-slate-800 border border-slate-700 rounded shadow-xl z-50 overflow-hidden flex flex-col py-1 animate-in fade-in slide-in-from-top-2 duration-150">
+          <button onClick={select(onOpenFile)} className={MENU_ITEM_CLASS}>
+            打开文件...<span className="text-slate-500">Ctrl+O</span>
+          </button>
+          <button onClick={select(onOpenFolder)} className={MENU_ITEM_CLASS}>
+            打开文件夹...
+          </button>
+          <button onClick={select(onSave)} className={MENU_ITEM_CLASS}>
+            保存<span className="text-slate-500">Ctrl+S</span>
+          </button>
+          <button onClick={select(onSaveAs)} className={MENU_ITEM_CLASS}>
+            另存为...<span className="text-slate-500">Ctrl+Shift+S</span>
+          </button>
+
+          <div className="h-px bg-slate-700 my-1"></div>
+          <div className="px-3 py-1 text-[10px] text-slate-500 uppercase tracking-wider">最近文件</div>
+          {recentFiles.length === 0 ? (
+            <div className="px-3 py-1.5 text-xs text-slate-500">暂无</div>
+          ) : (
+            <>
+              {recentFiles.map(path => (
+                <button key={path} onClick={select(() => onOpenRecent(path))} className={MENU_ITEM_CLASS} title={path}>
+                  <span className="truncate">
+                    <span className="text-slate-200">{path.split(/[\\/]/).pop()}</span>
+                    <span className="ml-2 text-slate-500">{path}</span>
+                  </span>
+                </button>
+              ))}
+              <button onClick={select(onClearRecent)} className={`${MENU_ITEM_CLASS} text-slate-500`}>
+                清除最近文件
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FileMenu;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { WorkspaceEntry } from '../types';
+
+interface FileTreeProps {
+  root: string;
+  entries: WorkspaceEntry[];
+  activePath: string | null;
+  dirtyPaths: Set<string>;
+  onOpenFile: (entry: WorkspaceEntry) => void;
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+const INDENT_PX = 12;
+
+const FileTree: React.FC<FileTreeProps> = ({ root, entries, activePath, dirtyPaths, onOpenFile, onRefresh, onClose }) => {
+  // Folders are collapsed until clicked
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggleFolder = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const rootName = root.split(/[\\/]/).filter(Boolean).pop() || root;
+
+  const renderEntries = (list: WorkspaceEntry[], depth: number): React.ReactNode =>
+    list.map(entry => {
+      const paddingLeft = 8 + depth * INDENT_PX;
+
+      if (entry.type === 'directory') {
+        const isOpen = expanded.has(entry.path);
+        return (
+          <li key={entry.path}>
+            <button
+              onClick={() => toggleFolder(entry.path)}
+              className="flex items-center gap-1 w-full text-left py-1 pr-2 text-xs text-slate-300 hover:bg-slate-800 truncate"
+              style={{ paddingLeft }}
+              title={entry.path}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className={`w-3 h-3 shrink-0 text-slate-500 transition-transform ${isOpen ? 'rotate-90' : ''}`}>
+                <path fillRule="evenodd" d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z" clipRule="evenodd" />
+              </svg>
+              <span className="truncate">{entry.name}</span>
+            </button>
+            {isOpen && entry.children && <ul>{renderEntries(entry.children, depth + 1)}</ul>}
+          </li>
+        );
+      }
+
+      const isActive = entry.path === activePath;
+      return (
+        <li key={entry.path}>
+          <button
+            onClick={() => onOpenFile(entry)}
+            className={`flex items-center gap-1.5 w-full text-left py-1 pr-2 text-xs truncate ${
+              isActive ? 'bg-slate-700 text-white' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+            }`}
+            style={{ paddingLeft: paddingLeft + 16 }}
+            title={entry.path}
+          >
+            <span className="truncate">{entry.name}</span>
+            {dirtyPaths.has(entry.path) && <span className="text-brand-400 shrink-0">●</span>}
+          </button>
+        </li>
+      );
+    });
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 border-r border-slate-800">
+      <div className="flex items-center justify-between px-3 h-10 bg-slate-800 border-b border-slate-700 shrink-0">
+        <span className="text-xs font-medium text-slate-400 uppercase tracking-wider truncate" title={root}>{rootName}</span>
+        <div className="flex items-center gap-1 shrink-0">
+          <button
+            onClick={onRefresh}
+            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="刷新文件列表"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+              <path fillRule="evenodd" d="M15.312 11.424a5.5 5.5 0 01-9.201 2.466l-.312-.311h2.433a.75.75 0 000-1.5H3.989a.75.75 0 00-.75.75v4.242a.75.75 0 001.5 0v-2.43l.31.31a7 7 0 0011.712-3.138.75.75 0 00-1.449-.39zm1.23-3.723a.75.75 0 00.219-.53V2.929a.75.75 0 00-1.5 0V5.36l-.31-.31A7 7 0 003.239 8.188a.75.75 0 101.448.389A5.5 5.5 0 0113.89 6.11l.311.31h-2.432a.75.75 0 000 1.5h4.243a.75.75 0 00.53-.219z" clipRule="evenodd" />
+            </svg>
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="关闭文件夹"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+              <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <ul className="flex-1 overflow-auto py-1 select-none">
+        {entries.length === 0 ? (
+          <li className="px-3 py-2 text-xs text-slate-500">此文件夹中没有 PlantUML 文件</li>
+        ) : (
+          renderEntries(entries, 0)
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default FileTree;
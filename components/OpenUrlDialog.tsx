@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { decodePlantUMLUrl } from '../utils/plantuml';
+
+interface OpenUrlDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpen: (source: string) => void;
+}
+
+const OpenUrlDialog: React.FC<OpenUrlDialogProps> = ({ isOpen, onClose, onOpen }) => {
+  const [urlText, setUrlText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setUrlText('');
+      setError(null);
+      requestAnimationFrame(() => inputRef.current?.focus());
+    }
+  }, [isOpen]);
+
+  const handleOpen = () => {
+    const source = decodePlantUMLUrl(urlText);
+    if (!source) {
+      setError("无法识别该链接。支持 /svg/、/png/、/uml/ 等 PlantUML 服务器链接（标准编码或 ~h 十六进制编码）。");
+      return;
+    }
+    onOpen(source);
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleOpen();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-lg flex flex-col animate-in fade-in zoom-in duration-200">
+
+        <div className="px-6 py-4 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-white">从 URL 打开</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+            <p className="text-sm text-slate-400">
+                粘贴 plantuml.com 或其他 PlantUML 服务器的图表链接，源码将作为新的历史记录载入编辑器。
+            </p>
+
+            <input
+                ref={inputRef}
+                type="text"
+                value={urlText}
+                onChange={(e) => { setUrlText(e.target.value); setError(null); }}
+                onKeyDown={handleKeyDown}
+                className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-brand-500 font-mono outline-none"
+                placeholder="https://www.plantuml.com/plantuml/svg/..."
+                spellCheck={false}
+            />
+
+            {error && (
+            <div className="p-3 bg-red-900/20 border border-red-900/50 rounded text-xs text-red-300 whitespace-pre-wrap">
+                {error}
+            </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={onClose}
+                    className="text-sm rounded px-4 py-2 text-slate-300 hover:text-white hover:bg-slate-800 transition-colors"
+                >
+                    取消
+                </button>
+                <button
+                    onClick={handleOpen}
+                    disabled={!urlText.trim()}
+                    className="text-sm font-medium rounded px-4 py-2 bg-brand-600 hover:bg-brand-500 text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    打开
+                </button>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OpenUrlDialog;
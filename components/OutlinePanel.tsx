@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { DocumentSymbol, SymbolKind, SYMBOL_KIND_LABELS } from '../utils/symbols';
+
+interface OutlinePanelProps {
+  symbols: DocumentSymbol[];
+  onSelect: (symbol: DocumentSymbol) => void;
+  onClose: () => void;
+}
+
+// Group order in the panel
+const KIND_ORDER: SymbolKind[] = [
+  'participant', 'actor', 'class', 'interface', 'enum', 'usecase', 'component', 'object',
+  'state', 'package', 'partition', 'note',
+];
+
+/**
+ * Elements declared in the source, grouped by kind. Clicking one selects it in the editor.
+ */
+const OutlinePanel: React.FC<OutlinePanelProps> = ({ symbols, onSelect, onClose }) => {
+  const [filter, setFilter] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<SymbolKind>>(new Set());
+
+  const groups = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const matching = query
+      ? symbols.filter(symbol =>
+          symbol.name.toLowerCase().includes(query) || symbol.alias?.toLowerCase().includes(query)
+        )
+      : symbols;
+    return KIND_ORDER
+      .map(kind => ({ kind, symbols: matching.filter(symbol => symbol.kind === kind) }))
+      .filter(group => group.symbols.length > 0);
+  }, [symbols, filter]);
+
+  const toggleGroup = (kind: SymbolKind) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 border-l border-slate-800">
+      <div className="flex items-center justify-between px-3 h-10 bg-slate-800 border-b border-slate-700 shrink-0">
+        <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">大纲</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+          title="关闭大纲"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+            <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-2 border-b border-slate-800 shrink-0">
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="筛选名称或别名"
+          className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:ring-1 focus:ring-brand-500 outline-none"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-1">
+        {groups.length === 0 && (
+          <p className="px-3 py-2 text-xs text-slate-500">
+            {symbols.length === 0 ? '当前源码中没有声明元素。' : '没有匹配的元素。'}
+          </p>
+        )}
+        {groups.map(group => (
+          <div key={group.kind}>
+            <button
+              onClick={() => toggleGroup(group.kind)}
+              className="flex items-center gap-1 w-full px-2 py-1 text-[11px] font-medium text-slate-400 hover:text-white transition-colors"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                viewBox="0 0 20 20"
+                fill="currentColor"
+                className={`w-3 h-3 transition-transform ${collapsed.has(group.kind) ? '' : 'rotate-90'}`}
+              >
+                <path fillRule="evenodd" d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z" clipRule="evenodd" />
+              </svg>
+              {SYMBOL_KIND_LABELS[group.kind]}
+              <span className="text-slate-600">{group.symbols.length}</span>
+            </button>
+            {!collapsed.has(group.kind) && (
+              <ul>
+                {group.symbols.map(symbol => (
+                  <li key={`${symbol.line}:${symbol.column}`}>
+                    <button
+                      onClick={() => onSelect(symbol)}
+                      className="flex items-center gap-2 w-full pl-6 pr-3 py-1 text-left text-xs text-slate-300 hover:bg-slate-800 hover:text-white transition-colors"
+                      title={`${symbol.keyword} ${symbol.name}${symbol.alias ? ` as ${symbol.alias}` : ''}`}
+                    >
+                      <span className="flex-1 min-w-0 truncate">
+                        {symbol.name}
+                        {symbol.alias && <span className="text-slate-500"> as {symbol.alias}</span>}
+                      </span>
+                      <span className="text-[10px] font-mono text-slate-600">{symbol.line}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default OutlinePanel;
@@ -1,90 +1,338 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { RenderResult, RenderStatus } from '../services/renderStore';
+import { OutputFormat } from '../utils/plantuml';
+import { createImagePdf, PdfImagePage } from '../utils/pdf';
+import { PreviewViewState } from '../types';
 
 // Safely import electron if available
 const electron = (window as any).require ? (window as any).require('electron') : null;
 
+// One diagram block of the document, as listed in the navigator
+export interface DiagramTab {
+  label: string;
+  startLine: number;
+  status: RenderStatus;
+  hasErrors: boolean;
+}
+
+// Two versions side by side: `render` is shown as version B next to `base` (A)
+export interface PreviewComparison {
+  base: RenderResult;
+  baseLabel: string;
+  targetLabel: string;
+}
+
 interface PreviewProps {
-  imageUrl: string;
+  render: RenderResult;
   isLoading: boolean;
+  // URL of the current diagram rendered in another output format (default: the page on screen)
+  getExportUrl: (format: OutputFormat, page?: number) => string;
+  diagrams: DiagramTab[];
+  activeDiagram: number;
+  onSelectDiagram: (index: number) => void;
+  // `newpage` pages of the current diagram (0-based activePage)
+  pageCount: number;
+  activePage: number;
+  onSelectPage: (page: number) => void;
+  // Zoom and pan to restore on mount, and changes to it (for the session)
+  initialView?: PreviewViewState;
+  onViewChange?: (view: PreviewViewState) => void;
+  comparison?: PreviewComparison;
 }
 
-const Preview: React.FC<PreviewProps> = ({ imageUrl, isLoading }) => {
-  // State for Derived State Pattern
-  const [lastImageUrl, setLastImageUrl] = useState(imageUrl);
-  
-  // Internal loading state
-  // We initialize based on whether we have a URL to load
-  const [isImageLoading, setIsImageLoading] = useState(!!imageUrl);
+// Formats fetched from the render service on export; SVG is saved from the preview itself
+const EXPORT_OPTIONS: { format: Exclude<OutputFormat, 'svg'>; label: string; extension: string }[] = [
+  { format: 'png', label: 'PNG 图片', extension: 'png' },
+  { format: 'pdf', label: 'PDF 文档', extension: 'pdf' },
+  { format: 'eps', label: 'EPS 矢量图', extension: 'eps' },
+  { format: 'latex', label: 'LaTeX (TikZ)', extension: 'tex' },
+  { format: 'txt', label: '文本 (ASCII)', extension: 'txt' },
+];
+
+type ViewMode = 'image' | 'text';
+
+// How two compared versions are laid out
+type CompareMode = 'side' | 'overlay' | 'flip';
+
+const COMPARE_MODES: { mode: CompareMode; label: string; title: string }[] = [
+  { mode: 'side', label: '并排', title: '左右并排显示两个版本' },
+  { mode: 'overlay', label: '叠加', title: '将 B 半透明叠加在 A 上' },
+  { mode: 'flip', label: '切换', title: '在同一位置切换 A 和 B（空格键）' },
+];
+
+interface TextRender {
+  status: 'loading' | 'success' | 'error';
+  text: string;
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+const fetchBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.blob();
+};
 
-  const [imgError, setImgError] = useState(false);
-  const [svgContent, setSvgContent] = useState<string | null>(null);
+// Flattens a PNG onto white and re-encodes it as JPEG, which PDF can embed directly
+const pngToPdfPage = (png: Blob): Promise<PdfImagePage> => new Promise((resolve, reject) => {
+  const objectUrl = URL.createObjectURL(png);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(objectUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error('Canvas not available'));
+      return;
+    }
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0);
+    canvas.toBlob(async (jpeg) => {
+      if (!jpeg) {
+        reject(new Error('JPEG encoding failed'));
+        return;
+      }
+      resolve({ jpeg: new Uint8Array(await jpeg.arrayBuffer()), width: canvas.width, height: canvas.height });
+    }, 'image/jpeg', 0.92);
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(objectUrl);
+    reject(new Error('PNG load failed'));
+  };
+  img.src = objectUrl;
+});
+
+const Preview: React.FC<PreviewProps> = ({
+  render,
+  isLoading,
+  getExportUrl,
+  diagrams,
+  activeDiagram,
+  onSelectDiagram,
+  pageCount,
+  activePage,
+  onSelectPage,
+  initialView,
+  onViewChange,
+  comparison
+}) => {
+  // State for Derived State Pattern
+  const [lastRenderUrl, setLastRenderUrl] = useState(render.url);
+  // Last successfully rendered SVG, kept visible under the loading overlay
+  const [displayedSvg, setDisplayedSvg] = useState<string | null>(render.svgText);
   const [copied, setCopied] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  // Label of the export in progress, shown on the export button
+  const [exportingLabel, setExportingLabel] = useState<string | null>(null);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('image');
+  const [textRender, setTextRender] = useState<TextRender | null>(null);
+  const [textCopied, setTextCopied] = useState(false);
+  const [compareMode, setCompareMode] = useState<CompareMode>('side');
+  const [overlayOpacity, setOverlayOpacity] = useState(0.5);
+  // Flip mode: showing A instead of B
+  const [showBase, setShowBase] = useState(false);
   
   // Zoom and Pan State
-  const [scale, setScale] = useState(1);
-  const [position, setPosition] = useState({ x: 0, y: 0 });
+  const [scale, setScale] = useState(initialView?.scale ?? 1);
+  const [position, setPosition] = useState({ x: initialView?.x ?? 0, y: initialView?.y ?? 0 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
 
   // Sync state with props (Derived State Pattern)
   // This runs during render, ensuring no frame gap between prop change and state reset.
-  if (imageUrl !== lastImageUrl) {
-    setLastImageUrl(imageUrl);
-    setIsImageLoading(!!imageUrl);
-    setImgError(false);
-    setSvgContent(null);
+  if (render.url && render.url !== lastRenderUrl) {
+    setLastRenderUrl(render.url);
     setCopied(false);
-    setScale(1);
-    setPosition({ x: 0, y: 0 });
+    // The first URL (once the server is ready) keeps a restored view
+    if (lastRenderUrl) {
+      setScale(1);
+      setPosition({ x: 0, y: 0 });
+    }
+  }
+  if (render.status === 'success' && render.svgText !== displayedSvg) {
+    setDisplayedSvg(render.svgText);
   }
+  if (render.status === 'idle' && displayedSvg) {
+    setDisplayedSvg(null);
+  }
+
+  // Close export menu on click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+        if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+            setIsExportMenuOpen(false);
+        }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // Text view: fetch the Unicode rendering of the same source version
+  useEffect(() => {
+    if (viewMode !== 'text') return;
+    const url = getExportUrl('txt');
+    if (!url) {
+      setTextRender(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setTextRender(prev => ({ status: 'loading', text: prev?.text || '' }));
+    fetch(url, { signal: controller.signal })
+      .then(async response => {
+        const text = await response.text();
+        setTextRender({ status: response.ok ? 'success' : 'error', text });
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error("Text render failed", e);
+        setTextRender({ status: 'error', text: '' });
+      });
+    return () => controller.abort();
+  }, [viewMode, getExportUrl]);
 
-  const handleImgLoad = () => {
-    setIsImageLoading(false);
+  const handleCopyText = async () => {
+    if (!textRender?.text) return;
+    try {
+      if (electron) {
+        electron.clipboard.writeText(textRender.text);
+      } else {
+        await navigator.clipboard.writeText(textRender.text);
+      }
+      setTextCopied(true);
+      setTimeout(() => setTextCopied(false), 2000);
+    } catch (e) {
+      console.error("Copy text failed", e);
+      alert("复制失败");
+    }
+  };
+
+  // Render the SVG text through <img> without another request to the server
+  const imageSrc = useMemo(
+    () => displayedSvg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(displayedSvg)}` : '',
+    [displayedSvg]
+  );
+
+  const baseSvg = comparison?.base.status === 'success' ? comparison.base.svgText : null;
+  const baseImageSrc = useMemo(
+    () => baseSvg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(baseSvg)}` : '',
+    [baseSvg]
+  );
+
+  const compareSides = comparison ? [
+    { key: 'base', label: `A: ${comparison.baseLabel}`, labelClass: 'text-red-400', src: baseImageSrc, result: comparison.base },
+    { key: 'target', label: `B: ${comparison.targetLabel}`, labelClass: 'text-green-400', src: imageSrc, result: render },
+  ] : [];
+
+  const renderVersionImage = (side: typeof compareSides[number], opacity: number) =>
+    side.src && side.result.status !== 'error' ? (
+      <img
+        key={side.key}
+        src={side.src}
+        alt={side.label}
+        style={{ gridArea: '1 / 1', opacity }}
+        className="max-w-none shadow-2xl bg-white rounded-sm select-none"
+        draggable={false}
+      />
+    ) : null;
+
+  const handleDownload = () => {
+    setIsExportMenuOpen(false);
+    if (!displayedSvg) return;
+    const blob = new Blob([displayedSvg], { type: 'image/svg+xml;charset=utf-8' });
+    downloadBlob(blob, `diagram-${Date.now()}.svg`);
+  };
+
+  const handleExport = async (option: typeof EXPORT_OPTIONS[number]) => {
+    setIsExportMenuOpen(false);
+    const url = getExportUrl(option.format);
+    if (!url) return;
+
+    setExportingLabel(option.format.toUpperCase());
+    try {
+      const blob = await fetchBlob(url);
+      downloadBlob(blob, `diagram-${Date.now()}.${option.extension}`);
+    } catch (e) {
+      console.error(`Export ${option.format} failed`, e);
+      alert(`导出 ${option.label} 失败：当前渲染服务可能不支持该格式。`);
+    } finally {
+      setExportingLabel(null);
+    }
   };
 
-  const handleImgError = () => {
-    setIsImageLoading(false); // Stop loading spinner on error
-    setImgError(true);
-    if (imageUrl) {
-        fetch(imageUrl)
-            .then(res => res.text())
-            .then(text => {
-                if (text.trim().includes('<svg')) {
-                    setSvgContent(text);
-                }
-            })
-            .catch(e => console.error("Failed to recover SVG content", e));
+  // Every page as its own file
+  const handleExportPages = async (format: 'svg' | 'png') => {
+    setIsExportMenuOpen(false);
+    const stamp = Date.now();
+    setExportingLabel(format.toUpperCase());
+    try {
+      for (let page = 0; page < pageCount; page++) {
+        const blob = await fetchBlob(getExportUrl(format, page));
+        downloadBlob(blob, `diagram-${stamp}-p${page + 1}.${format}`);
+      }
+    } catch (e) {
+      console.error(`Export pages as ${format} failed`, e);
+      alert("导出所有页面失败：无法获取部分页面。");
+    } finally {
+      setExportingLabel(null);
     }
   };
 
-  const handleDownload = async () => {
+  // All pages in one PDF, built from the PNG rendering of each page
+  const handleExportCombinedPdf = async () => {
+    setIsExportMenuOpen(false);
+    setExportingLabel('PDF');
     try {
-      const response = await fetch(imageUrl);
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `diagram-${Date.now()}.svg`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
+      const pages: PdfImagePage[] = [];
+      for (let page = 0; page < pageCount; page++) {
+        pages.push(await pngToPdfPage(await fetchBlob(getExportUrl('png', page))));
+      }
+      downloadBlob(new Blob([createImagePdf(pages)], { type: 'application/pdf' }), `diagram-${Date.now()}.pdf`);
     } catch (e) {
-      console.error("Download failed", e);
-      alert("无法下载图片（可能受服务器 CORS 限制影响）。");
+      console.error("Export combined PDF failed", e);
+      alert("导出合并 PDF 失败：无法获取部分页面。");
+    } finally {
+      setExportingLabel(null);
     }
   };
 
+  // Page navigation, also bound to the keyboard while the preview has focus
+  const goToPage = (page: number) => {
+    if (page >= 0 && page < pageCount && page !== activePage) onSelectPage(page);
+  };
+
+  const handlePreviewKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (comparison && compareMode === 'flip' && e.key === ' ') {
+      e.preventDefault();
+      setShowBase(prev => !prev);
+      return;
+    }
+    if (pageCount <= 1) return;
+    if (e.key === 'ArrowRight' || e.key === 'PageDown') goToPage(activePage + 1);
+    else if (e.key === 'ArrowLeft' || e.key === 'PageUp') goToPage(activePage - 1);
+    else if (e.key === 'Home') goToPage(0);
+    else if (e.key === 'End') goToPage(pageCount - 1);
+    else return;
+    e.preventDefault();
+  };
+
   const handleCopyPNG = async () => {
       try {
           // 1. Get SVG content
-          let text = svgContent;
-          if (!text && imageUrl) {
-             const response = await fetch(imageUrl);
-             if (!response.ok) throw new Error("Failed to fetch");
-             text = await response.text();
-          }
-
+          const text = displayedSvg;
           if (!text) throw new Error("No SVG content found");
 
           // 2. Convert SVG string to Image
@@ -157,6 +405,10 @@ const Preview: React.FC<PreviewProps> = ({ imageUrl, isLoading }) => {
       }
   };
 
+  useEffect(() => {
+    onViewChange?.({ scale, x: position.x, y: position.y });
+  }, [scale, position, onViewChange]);
+
   // Zoom Handlers
   const handleZoomIn = () => setScale(prev => Math.min(prev + 0.25, 5));
   const handleZoomOut = () => setScale(prev => Math.max(prev - 0.25, 0.1));
@@ -191,94 +443,244 @@ const Preview: React.FC<PreviewProps> = ({ imageUrl, isLoading }) => {
   };
 
   // Determine if we should show the loading overlay
-  // Show if parent is calculating (isLoading) OR if browser is fetching image (isImageLoading)
-  // But stop showing if we have an error or recovered SVG content
-  const showLoading = isLoading || (imageUrl && isImageLoading && !imgError && !svgContent);
+  // Show if parent is calculating (isLoading) OR if the render store is fetching
+  // A superseded render means a newer version is already on its way
+  const showLoading = isLoading || render.status === 'loading' || render.status === 'superseded';
+  const renderFailed = render.status === 'error';
 
   return (
     <div className="flex flex-col h-full bg-slate-950 relative overflow-hidden">
        <div className="flex items-center justify-between px-4 h-10 bg-slate-800 border-b border-slate-700 shrink-0 z-20 relative">
         <div className="flex items-center gap-3">
             <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">预览</span>
+
+            {/* View Mode Toggle */}
+            {!comparison && (
+            <div className="flex items-center bg-slate-900 rounded border border-slate-700 p-0.5 text-[10px]">
+                {(['image', 'text'] as ViewMode[]).map(mode => (
+                    <button
+                        key={mode}
+                        onClick={() => setViewMode(mode)}
+                        className={`px-2 py-0.5 rounded transition-colors ${viewMode === mode ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                        title={mode === 'image' ? '图像预览' : '文本预览 (Unicode 字符画，可粘贴到代码注释)'}
+                    >
+                        {mode === 'image' ? '图像' : '文本'}
+                    </button>
+                ))}
+            </div>
+            )}
+            {/* Comparison Layout */}
+            {comparison && (
+                <div className="flex items-center bg-slate-900 rounded border border-slate-700 p-0.5 text-[10px]">
+                    {COMPARE_MODES.map(option => (
+                        <button
+                            key={option.mode}
+                            onClick={() => setCompareMode(option.mode)}
+                            className={`px-2 py-0.5 rounded transition-colors ${compareMode === option.mode ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                            title={option.title}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {comparison && compareMode === 'overlay' && (
+                <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(overlayOpacity * 100)}
+                    onChange={(e) => setOverlayOpacity(parseInt(e.target.value, 10) / 100)}
+                    className="w-20 accent-brand-500"
+                    title={`B 的不透明度 ${Math.round(overlayOpacity * 100)}%`}
+                />
+            )}
+            {comparison && compareMode === 'flip' && (
+                <button
+                    onClick={() => setShowBase(prev => !prev)}
+                    className="text-[10px] px-2 py-0.5 rounded border border-slate-700 text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+                    title="空格键切换"
+                >
+                    {showBase ? '显示 B' : '显示 A'}
+                </button>
+            )}
+            {render.status === 'success' && render.renderTime !== undefined && (
+                <span className="text-[10px] text-slate-500 font-mono" title="渲染耗时">{render.renderTime} ms</span>
+            )}
+            {render.status === 'success' && !!render.skipped && (
+                <span className="text-[10px] text-amber-400/80" title="输入过快时，排队中的旧版本会被直接跳过">
+                    已跳过 {render.skipped} 个过时渲染
+                </span>
+            )}
             
             {/* Zoom Controls */}
-            <div className="flex items-center bg-slate-900 rounded border border-slate-700 p-0.5 ml-2">
-                <button 
-                    onClick={handleZoomOut}
-                    className="p-1 hover:bg-slate-700 text-slate-400 hover:text-white rounded transition-colors"
-                    title="缩小"
+            {(viewMode === 'image' || comparison) && (
+                <div className="flex items-center bg-slate-900 rounded border border-slate-700 p-0.5 ml-2">
+                    <button 
+                        onClick={handleZoomOut}
+                        className="p-1 hover:bg-slate-700 text-slate-400 hover:text-white rounded transition-colors"
+                        title="缩小"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
+                            <path fillRule="evenodd" d="M4 10a.75.75 0 01.75-.75h10.5a.75.75 0 010 1.5H4.75A.75.75 0 014 10z" clipRule="evenodd" />
+                        </svg>
+                    </button>
+                    <span className="text-[10px] text-slate-400 w-8 text-center select-none">{Math.round(scale * 100)}%</span>
+                    <button 
+                        onClick={handleZoomIn}
+                        className="p-1 hover:bg-slate-700 text-slate-400 hover:text-white rounded transition-colors"
+                        title="放大"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
+                             <path d="M10.75 4.75a.75.75 0 00-1.5 0v4.5h-4.5a.75.75 0 000 1.5h4.5v4.5a.75.75 0 001.5 0v-4.5h4.5a.75.75 0 000-1.5h-4.5v-4.5z" />
+                        </svg>
+                    </button>
+                    <div className="w-px h-3 bg-slate-700 mx-1"></div>
+                    <button 
+                        onClick={handleResetZoom}
+                        className="p-1 hover:bg-slate-700 text-slate-400 hover:text-white rounded transition-colors"
+                        title="重置视图"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
+                            <path fillRule="evenodd" d="M7.793 2.232a.75.75 0 01-.025 1.06L3.622 7.25h10.003a5.375 5.375 0 010 10.75H10.75a.75.75 0 010-1.5h2.875a3.875 3.875 0 000-7.75H3.622l4.146 3.957a.75.75 0 01-1.036 1.085l-5.5-5.25a.75.75 0 010-1.085l5.5-5.25a.75.75 0 011.061.025z" clipRule="evenodd" />
+                        </svg>
+                    </button>
+                </div>
+            )}
+        </div>
+        
+        <div className="flex items-center gap-2">
+            {viewMode === 'text' ? (
+                <button
+                    onClick={handleCopyText}
+                    disabled={textRender?.status !== 'success' || !textRender.text}
+                    className="text-xs flex items-center gap-1.5 bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white px-2 py-1 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="复制字符画文本"
                 >
-                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
-                        <path fillRule="evenodd" d="M4 10a.75.75 0 01.75-.75h10.5a.75.75 0 010 1.5H4.75A.75.75 0 014 10z" clipRule="evenodd" />
-                    </svg>
+                    {textCopied ? (
+                        <span className="text-green-400">已复制文本</span>
+                    ) : (
+                        <>
+                             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
+                                <path fillRule="evenodd" d="M13.887 3.182c.396.037.79.08 1.183.128C16.194 3.45 17 4.414 17 5.517V16.75A2.25 2.25 0 0114.75 19h-9.5A2.25 2.25 0 013 16.75V5.517c0-1.103.806-2.068 1.93-2.207.393-.048.787-.09 1.183-.128A3.001 3.001 0 019 1h2c1.373 0 2.531.923 2.887 2.182zM7.5 4A1.5 1.5 0 019 2.5h2A1.5 1.5 0 0112.5 4v.5h-5V4z" clipRule="evenodd" />
+                             </svg>
+                             <span>复制文本</span>
+                        </>
+                    )}
                 </button>
-                <span className="text-[10px] text-slate-400 w-8 text-center select-none">{Math.round(scale * 100)}%</span>
-                <button 
-                    onClick={handleZoomIn}
-                    className="p-1 hover:bg-slate-700 text-slate-400 hover:text-white rounded transition-colors"
-                    title="放大"
+            ) : (
+                <button
+                    onClick={handleCopyPNG}
+                    disabled={showLoading || !displayedSvg}
+                    className="text-xs flex items-center gap-1.5 bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white px-2 py-1 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="复制 PNG 图片 (适合粘贴到文档/微信)"
                 >
-                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
-                         <path d="M10.75 4.75a.75.75 0 00-1.5 0v4.5h-4.5a.75.75 0 000 1.5h4.5v4.5a.75.75 0 001.5 0v-4.5h4.5a.75.75 0 000-1.5h-4.5v-4.5z" />
-                    </svg>
+                    {copied ? (
+                        <>
+                            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3 text-green-400">
+                                 <path fillRule="evenodd" d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z" clipRule="evenodd" />
+                            </svg>
+                            <span className="text-green-400">已复制 PNG</span>
+                        </>
+                    ) : (
+                        <>
+                             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
+                                <path fillRule="evenodd" d="M13.887 3.182c.396.037.79.08 1.183.128C16.194 3.45 17 4.414 17 5.517V16.75A2.25 2.25 0 0114.75 19h-9.5A2.25 2.25 0 013 16.75V5.517c0-1.103.806-2.068 1.93-2.207.393-.048.787-.09 1.183-.128A3.001 3.001 0 019 1h2c1.373 0 2.531.923 2.887 2.182zM7.5 4A1.5 1.5 0 019 2.5h2A1.5 1.5 0 0112.5 4v.5h-5V4z" clipRule="evenodd" />
+                             </svg>
+                             <span>复制 PNG 图片</span>
+                        </>
+                    )}
                 </button>
-                <div className="w-px h-3 bg-slate-700 mx-1"></div>
+            )}
+
+            <div className="relative" ref={exportMenuRef}>
                 <button 
-                    onClick={handleResetZoom}
-                    className="p-1 hover:bg-slate-700 text-slate-400 hover:text-white rounded transition-colors"
-                    title="重置视图"
+                    onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                    disabled={showLoading || !displayedSvg || exportingLabel !== null}
+                    className="text-xs flex items-center gap-1.5 bg-slate-700 hover:bg-slate-600 text-white px-2 py-1 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="导出图表"
                 >
                     <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
-                        <path fillRule="evenodd" d="M7.793 2.232a.75.75 0 01-.025 1.06L3.622 7.25h10.003a5.375 5.375 0 010 10.75H10.75a.75.75 0 010-1.5h2.875a3.875 3.875 0 000-7.75H3.622l4.146 3.957a.75.75 0 01-1.036 1.085l-5.5-5.25a.75.75 0 010-1.085l5.5-5.25a.75.75 0 011.061.025z" clipRule="evenodd" />
+                        <path d="M10.75 2.75a.75.75 0 00-1.5 0v8.614L6.295 8.235a.75.75 0 10-1.09 1.03l4.25 4.5a.75.75 0 001.09 0l4.25-4.5a.75.75 0 00-1.09-1.03l-2.965 3.129V2.75z" />
+                        <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
                     </svg>
+                    {exportingLabel ? `正在导出 ${exportingLabel}...` : '导出'}
                 </button>
+
+                {isExportMenuOpen && (
+                    <div className="absolute right-0 top-full mt-1 w-36 bg-slate-800 border border-slate-700 rounded shadow-xl z-50 overflow-hidden flex flex-col py-1 animate-in fade-in slide-in-from-top-2 duration-150">
+                        <button
+                            onClick={handleDownload}
+                            className="px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 hover:text-white w-full text-left"
+                        >
+                            下载 SVG 代码
+                        </button>
+                        {EXPORT_OPTIONS.map(option => (
+                            <button
+                                key={option.format}
+                                onClick={() => handleExport(option)}
+                                className="px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 hover:text-white w-full text-left"
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                        {pageCount > 1 && (
+                            <>
+                                <div className="h-px bg-slate-700 my-1"></div>
+                                <div className="px-3 py-1 text-[10px] text-slate-500">全部 {pageCount} 页</div>
+                                <button
+                                    onClick={() => handleExportPages('svg')}
+                                    className="px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 hover:text-white w-full text-left"
+                                >
+                                    逐页 SVG 文件
+                                </button>
+                                <button
+                                    onClick={() => handleExportPages('png')}
+                                    className="px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 hover:text-white w-full text-left"
+                                >
+                                    逐页 PNG 文件
+                                </button>
+                                <button
+                                    onClick={handleExportCombinedPdf}
+                                    className="px-3 py-2 text-xs text-slate-300 hover:bg-slate-700 hover:text-white w-full text-left"
+                                >
+                                    合并为一个 PDF
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
-        
-        <div className="flex items-center gap-2">
-            <button
-                onClick={handleCopyPNG}
-                disabled={showLoading || (!imageUrl && !svgContent)}
-                className="text-xs flex items-center gap-1.5 bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white px-2 py-1 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                title="复制 PNG 图片 (适合粘贴到文档/微信)"
-            >
-                {copied ? (
-                    <>
-                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3 text-green-400">
-                             <path fillRule="evenodd" d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z" clipRule="evenodd" />
-                        </svg>
-                        <span className="text-green-400">已复制 PNG</span>
-                    </>
-                ) : (
-                    <>
-                         <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
-                            <path fillRule="evenodd" d="M13.887 3.182c.396.037.79.08 1.183.128C16.194 3.45 17 4.414 17 5.517V16.75A2.25 2.25 0 0114.75 19h-9.5A2.25 2.25 0 013 16.75V5.517c0-1.103.806-2.068 1.93-2.207.393-.048.787-.09 1.183-.128A3.001 3.001 0 019 1h2c1.373 0 2.531.923 2.887 2.182zM7.5 4A1.5 1.5 0 019 2.5h2A1.5 1.5 0 0112.5 4v.5h-5V4z" clipRule="evenodd" />
-                         </svg>
-                         <span>复制 PNG 图片</span>
-                    </>
-                )}
-            </button>
+      </div>
 
-            <button 
-                onClick={handleDownload}
-                disabled={showLoading || (!imageUrl && !svgContent)}
-                className="text-xs flex items-center gap-1.5 bg-slate-700 hover:bg-slate-600 text-white px-2 py-1 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                title="下载 SVG 代码"
+      {/* Diagram Navigator (documents with several @start blocks) */}
+      {diagrams.length > 1 && (
+        <div className="flex items-center gap-1 px-2 h-8 bg-slate-900 border-b border-slate-700 shrink-0 overflow-x-auto z-20">
+          {diagrams.map((diagram, i) => (
+            <button
+              key={i}
+              onClick={() => onSelectDiagram(i)}
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded text-[11px] whitespace-nowrap transition-colors ${
+                i === activeDiagram ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+              }`}
+              title={`第 ${diagram.startLine} 行`}
             >
-                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
-                    <path d="M10.75 2.75a.75.75 0 00-1.5 0v8.614L6.295 8.235a.75.75 0 10-1.09 1.03l4.25 4.5a.75.75 0 001.09 0l4.25-4.5a.75.75 0 00-1.09-1.03l-2.965 3.129V2.75z" />
-                    <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
-                </svg>
-                下载 SVG 代码
+              {(diagram.hasErrors || diagram.status === 'error') && <span className="text-red-400">●</span>}
+              {diagram.status === 'loading' && <span className="text-slate-500 animate-pulse">●</span>}
+              {diagram.label}
             </button>
+          ))}
         </div>
-      </div>
+      )}
 
       <div 
-        className={`flex-1 overflow-hidden flex items-center justify-center p-8 bg-slate-950 bg-[radial-gradient(#1e293b_1px,transparent_1px)] [background-size:16px_16px] ${
-             imageUrl ? (isDragging ? 'cursor-grabbing' : 'cursor-grab') : ''
+        tabIndex={0}
+        onKeyDown={handlePreviewKeyDown}
+        className={`flex-1 overflow-hidden flex items-center justify-center p-8 outline-none bg-slate-950 bg-[radial-gradient(#1e293b_1px,transparent_1px)] [background-size:16px_16px] ${
+             imageSrc ? (isDragging ? 'cursor-grabbing' : 'cursor-grab') : ''
         }`}
-        onMouseDown={imageUrl ? handleMouseDown : undefined}
+        onMouseDown={(imageSrc || baseImageSrc) && (viewMode === 'image' || comparison) ? handleMouseDown : undefined}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
@@ -289,11 +691,43 @@ const Preview: React.FC<PreviewProps> = ({ imageUrl, isLoading }) => {
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              <span className="text-brand-200 font-medium animate-pulse">正在渲染图表...</span>
+              <span className="text-brand-200 font-medium animate-pulse">
+                {render.status === 'superseded' ? '已跳过过时版本，等待最新渲染...' : '正在渲染图表...'}
+              </span>
           </div>
         )}
 
-        {/* Image Container with Transform */}
+        {/* Comparison: both versions share zoom and pan */}
+        {comparison ? (
+          <div className={`absolute inset-0 grid ${compareMode === 'side' ? 'grid-cols-2 divide-x divide-slate-700' : 'grid-cols-1'}`}>
+            {(compareMode === 'side' ? compareSides : compareMode === 'flip' ? [compareSides[showBase ? 0 : 1]] : [compareSides[1]]).map(side => (
+              <div key={compareMode === 'side' ? side.key : 'single'} className="relative overflow-hidden flex items-center justify-center p-8">
+                <span className={`absolute top-2 left-2 z-[5] max-w-[90%] truncate px-2 py-0.5 rounded bg-slate-900/90 text-[11px] ${side.labelClass}`}>
+                  {compareMode === 'overlay' ? `${compareSides[0].label} · ${side.label}` : side.label}
+                </span>
+                <div
+                  style={{
+                    transform: `translate(${position.x}px, ${position.y}px) scale(${scale})`,
+                    transition: isDragging ? 'none' : 'transform 0.1s ease-out',
+                    pointerEvents: 'none',
+                  }}
+                  className="grid place-items-center"
+                >
+                  {/* Overlay: A underneath, B on top, stacked in the same grid cell */}
+                  {compareMode === 'overlay' && renderVersionImage(compareSides[0], 1)}
+                  {renderVersionImage(side, compareMode === 'overlay' ? overlayOpacity : 1)}
+                </div>
+                {side.result.status === 'error' && (
+                  <p className="absolute text-sm text-red-400 pointer-events-none">无法渲染此版本{side.result.error ? `（${side.result.error}）` : ''}</p>
+                )}
+                {side.result.status === 'idle' && (
+                  <p className="absolute text-sm text-slate-600 pointer-events-none">此版本没有图表</p>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+        /* Image Container with Transform */
         <div
             style={{
                 transform: `translate(${position.x}px, ${position.y}px) scale(${scale})`,
@@ -304,37 +738,78 @@ const Preview: React.FC<PreviewProps> = ({ imageUrl, isLoading }) => {
             }}
             className="flex items-center justify-center"
         >
-            {/* Case 1: Render Recovered SVG (often the syntax error image) */}
-            {!showLoading && svgContent && (
-                 <div 
-                    className="max-w-none shadow-2xl bg-white rounded-sm p-2"
-                    dangerouslySetInnerHTML={{ __html: svgContent }}
-                 />
-            )}
-
-            {/* Case 2: Render Image via img tag */}
-            {!svgContent && !imgError && imageUrl && (
+            {imageSrc && !renderFailed && (
               <img 
-                key={imageUrl}
-                src={imageUrl} 
+                src={imageSrc} 
                 alt="PlantUML Diagram" 
-                className={`max-w-none shadow-2xl bg-white rounded-sm select-none ${showLoading ? 'opacity-0' : 'opacity-100'}`}
+                className="max-w-none shadow-2xl bg-white rounded-sm select-none"
                 draggable={false}
-                onError={handleImgError}
-                onLoad={handleImgLoad}
               />
             )}
         </div>
+        )}
 
-        {/* Case 3: Fatal Error (Neither img nor SVG content worked) */}
-        {!showLoading && !svgContent && imgError && (
+        {/* Fatal Error (the server did not return a diagram) */}
+        {!comparison && !showLoading && renderFailed && (
           <div className="absolute text-red-400 p-4 border border-red-900 bg-red-950/30 rounded max-w-md text-center pointer-events-none">
             <h3 className="font-bold mb-2">加载失败</h3>
-            <p className="text-sm opacity-80">无法加载图表图片。请检查服务器连接。</p>
+            <p className="text-sm opacity-80">无法加载图表图片。请检查服务器连接。{render.error ? `（${render.error}）` : ''}</p>
+          </div>
+        )}
+
+        {/* Page Picker (diagrams split with newpage) */}
+        {pageCount > 1 && (
+          <div
+            className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 bg-slate-800/90 border border-slate-700 rounded-full px-1 py-0.5 shadow-lg text-xs text-slate-300"
+            onMouseDown={e => e.stopPropagation()}
+            title="← / → 或 PageUp / PageDown 切换页面"
+          >
+            <button
+              onClick={() => goToPage(activePage - 1)}
+              disabled={activePage === 0}
+              className="p-1 rounded-full hover:bg-slate-700 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+              title="上一页"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+                <path fillRule="evenodd" d="M12.79 5.23a.75.75 0 01-.02 1.06L8.832 10l3.938 3.71a.75.75 0 11-1.04 1.08l-4.5-4.25a.75.75 0 010-1.08l4.5-4.25a.75.75 0 011.06.02z" clipRule="evenodd" />
+              </svg>
+            </button>
+            <select
+              value={activePage}
+              onChange={e => goToPage(parseInt(e.target.value, 10))}
+              className="bg-transparent text-xs text-slate-200 focus:outline-none cursor-pointer"
+            >
+              {Array.from({ length: pageCount }, (_, page) => (
+                <option key={page} value={page} className="bg-slate-800">第 {page + 1} / {pageCount} 页</option>
+              ))}
+            </select>
+            <button
+              onClick={() => goToPage(activePage + 1)}
+              disabled={activePage === pageCount - 1}
+              className="p-1 rounded-full hover:bg-slate-700 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+              title="下一页"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+                <path fillRule="evenodd" d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z" clipRule="evenodd" />
+              </svg>
+            </button>
+          </div>
+        )}
+
+        {/* Text View (covers the image canvas) */}
+        {!comparison && viewMode === 'text' && render.status !== 'idle' && (
+          <div className="absolute inset-0 z-[5] bg-slate-950 overflow-auto p-4">
+            {textRender?.status === 'error' ? (
+              <p className="text-sm text-red-400">无法获取文本渲染结果。当前渲染服务可能不支持 txt 格式。</p>
+            ) : (
+              <pre className={`font-mono text-xs leading-tight text-slate-200 whitespace-pre ${textRender?.status === 'loading' ? 'opacity-50' : ''}`}>
+                {textRender?.text || ''}
+              </pre>
+            )}
           </div>
         )}
 
-        {!showLoading && !imageUrl && !imgError && !svgContent && (
+        {!comparison && !showLoading && render.status === 'idle' && (
           <div className="absolute text-slate-600 text-center pointer-events-none">
             <p>输入 PlantUML 代码以生成图表</p>
           </div>
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Diagnostic } from '../types';
+
+interface ProblemsPanelProps {
+  diagnostics: Diagnostic[];
+  isOpen: boolean;
+  onToggle: () => void;
+  onSelect: (diagnostic: Diagnostic) => void;
+}
+
+export const SeverityIcon: React.FC<{ severity: Diagnostic['severity']; className?: string }> = ({ severity, className = 'w-3.5 h-3.5' }) => (
+  severity === 'error' ? (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className={`${className} text-red-400 shrink-0`}>
+      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.28 7.22a.75.75 0 00-1.06 1.06L8.94 10l-1.72 1.72a.75.75 0 101.06 1.06L10 11.06l1.72 1.72a.75.75 0 101.06-1.06L11.06 10l1.72-1.72a.75.75 0 00-1.06-1.06L10 8.94 8.28 7.22z" clipRule="evenodd" />
+    </svg>
+  ) : (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className={`${className} text-amber-400 shrink-0`}>
+      <path fillRule="evenodd" d="M8.485 2.495c.673-1.167 2.357-1.167 3.03 0l6.28 10.875c.673 1.167-.17 2.625-1.516 2.625H3.72c-1.347 0-2.189-1.458-1.515-2.625L8.485 2.495zM10 5a.75.75 0 01.75.75v3.5a.75.75 0 01-1.5 0v-3.5A.75.75 0 0110 5zm0 9a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" />
+    </svg>
+  )
+);
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ diagnostics, isOpen, onToggle, onSelect }) => {
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className="shrink-0 border-t border-slate-700 bg-slate-900 flex flex-col">
+      <button
+        onClick={onToggle}
+        className="flex items-center gap-3 px-4 h-7 bg-slate-800 text-[11px] text-slate-400 hover:text-white transition-colors w-full text-left"
+        title={isOpen ? '收起问题面板' : '展开问题面板'}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-90' : ''}`}>
+          <path fillRule="evenodd" d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z" clipRule="evenodd" />
+        </svg>
+        <span className="font-medium uppercase tracking-wider">问题</span>
+        <span className="flex items-center gap-1">
+          <SeverityIcon severity="error" className="w-3 h-3" />
+          {errorCount}
+        </span>
+        <span className="flex items-center gap-1">
+          <SeverityIcon severity="warning" className="w-3 h-3" />
+          {warningCount}
+        </span>
+      </button>
+
+      {isOpen && (
+        <ul className="max-h-40 overflow-auto py-1">
+          {diagnostics.length === 0 && (
+            <li className="px-4 py-1.5 text-xs text-slate-500">未发现问题</li>
+          )}
+          {diagnostics.map((d, i) => (
+            <li
+              key={i}
+              onClick={() => onSelect(d)}
+              className="px-4 py-1.5 text-xs cursor-pointer hover:bg-slate-800 flex items-start gap-2"
+            >
+              <SeverityIcon severity={d.severity} />
+              <div className="flex-1 min-w-0">
+                <div className="text-slate-200 break-words">{d.message}</div>
+                {d.hints.map((hint, j) => (
+                  <div key={j} className="text-slate-400">建议: {hint}</div>
+                ))}
+              </div>
+              <span className="text-slate-500 font-mono shrink-0">
+                {d.include
+                  ? `${d.include.file}:${d.include.line}`
+                  : d.line ? `行 ${d.line}${d.column ? `:${d.column}` : ''}` : '—'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProblemsPanel;
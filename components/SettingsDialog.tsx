@@ -1,4 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppSettings, RenderBackend } from '../utils/settings';
+import { UrlEncoding, ServerHealth, checkServerHealth, DEFAULT_SERVER_URL } from '../utils/plantuml';
+import { RenderCacheStats, RenderHealth, RenderWorkerHealth } from '../types';
 
 // Safely import electron types or object
 const electron = (window as any).require ? (window as any).require('electron') : null;
@@ -8,19 +11,55 @@ interface SettingsDialogProps {
   isOpen: boolean;
   onClose: () => void;
   currentUrl: string;
-  onSave: (url: string) => void;
   initialError?: string;
+  settings: AppSettings;
+  onSettingsChange: (patch: Partial<AppSettings>) => void;
+  renderHealth?: RenderHealth | null;
 }
 
-const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, currentUrl, onSave, initialError }) => {
+const URL_ENCODING_OPTIONS: { value: UrlEncoding; label: string; description: string }[] = [
+  { value: 'deflate', label: '标准 (Deflate)', description: '与 plantuml.com 及 Wiki 链接一致，体积更小' },
+  { value: 'hex', label: '十六进制 (~h)', description: '兼容旧版本服务，链接体积约为源码两倍' },
+];
+
+const BACKEND_OPTIONS: { value: RenderBackend; label: string; description: string }[] = [
+  { value: 'local', label: '本地 (内置 plantuml.jar)', description: '完全离线，需要安装 Java' },
+  { value: 'custom', label: '自定义服务器', description: '团队内部或自建的 PlantUML 服务' },
+  { value: 'public', label: '公共服务器', description: '使用 plantuml.com，图表源码会发送到外部服务器' },
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const WORKER_STATE_LABELS: Record<RenderWorkerHealth['state'], { label: string; className: string }> = {
+  idle: { label: '空闲', className: 'text-green-400' },
+  busy: { label: '渲染中', className: 'text-brand-400' },
+  crashed: { label: '异常', className: 'text-red-400' },
+  stopped: { label: '未启动', className: 'text-slate-500' },
+};
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, currentUrl, initialError, settings, onSettingsChange, renderHealth }) => {
   const [localPort, setLocalPort] = useState('8080');
   const [serverStatus, setServerStatus] = useState<{success?: boolean; error?: string} | null>(null);
   const [isStarting, setIsStarting] = useState(false);
+  const [customUrl, setCustomUrl] = useState(settings.customServerUrl);
+  const [health, setHealth] = useState<ServerHealth | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [cacheStats, setCacheStats] = useState<RenderCacheStats | null>(null);
+  const [cacheSizeText, setCacheSizeText] = useState(String(settings.renderCacheSizeMB));
+  const [workersText, setWorkersText] = useState(String(settings.renderWorkers));
+  const [includePathsText, setIncludePathsText] = useState(settings.includePaths.join('\n'));
+  const [undoLimitText, setUndoLimitText] = useState(String(settings.undoLimit));
+  // Only a manual start from this dialog should auto-close it on success
+  const isManualStartRef = useRef(false);
 
   useEffect(() => {
     if (isOpen) {
         // Try to extract port from current URL if it exists
-        const match = currentUrl?.match(/:(\d+)/);
+        const match = currentUrl?.match(/localhost:(\d+)/);
         if (match) {
             setLocalPort(match[1]);
         }
@@ -30,9 +69,86 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, curren
         } else {
             setServerStatus(null);
         }
+        setHealth(null);
     }
   }, [currentUrl, isOpen, initialError]);
 
+  useEffect(() => {
+    if (isOpen) {
+        setCustomUrl(settings.customServerUrl);
+    }
+  }, [isOpen, settings.customServerUrl]);
+
+  useEffect(() => {
+    if (isOpen) {
+        setCacheSizeText(String(settings.renderCacheSizeMB));
+        setWorkersText(String(settings.renderWorkers));
+        setIncludePathsText(settings.includePaths.join('\n'));
+        setUndoLimitText(String(settings.undoLimit));
+    }
+  }, [isOpen, settings.renderCacheSizeMB, settings.renderWorkers, settings.includePaths, settings.undoLimit]);
+
+  // One directory per line
+  const commitIncludePaths = () => {
+    const paths = includePathsText.split('\n').map(p => p.trim()).filter(Boolean);
+    setIncludePathsText(paths.join('\n'));
+    if (paths.join('\n') !== settings.includePaths.join('\n')) {
+        onSettingsChange({ includePaths: paths });
+    }
+  };
+
+  const commitWorkers = () => {
+    const count = parseInt(workersText, 10);
+    if (isNaN(count) || count < 1 || count > 8) {
+        setWorkersText(String(settings.renderWorkers));
+        return;
+    }
+    if (count !== settings.renderWorkers) {
+        onSettingsChange({ renderWorkers: count });
+    }
+  };
+
+  const commitUndoLimit = () => {
+    const limit = parseInt(undoLimitText, 10);
+    if (isNaN(limit) || limit < 10 || limit > 10000) {
+        setUndoLimitText(String(settings.undoLimit));
+        return;
+    }
+    if (limit !== settings.undoLimit) {
+        onSettingsChange({ undoLimit: limit });
+    }
+  };
+
+  // Poll cache statistics while the local backend settings are visible
+  useEffect(() => {
+    if (!ipcRenderer || !isOpen || settings.renderBackend !== 'local') return;
+
+    const refresh = () => {
+        ipcRenderer.invoke('get-render-cache-stats')
+            .then((stats: RenderCacheStats) => setCacheStats(stats))
+            .catch((e: any) => console.error("Failed to read cache stats", e));
+    };
+    refresh();
+    const intervalId = setInterval(refresh, 2000);
+    return () => clearInterval(intervalId);
+  }, [isOpen, settings.renderBackend]);
+
+  const commitCacheSize = () => {
+    const size = parseInt(cacheSizeText, 10);
+    if (isNaN(size) || size < 0 || size > 4096) {
+        setCacheSizeText(String(settings.renderCacheSizeMB));
+        return;
+    }
+    if (size !== settings.renderCacheSizeMB) {
+        onSettingsChange({ renderCacheSizeMB: size });
+    }
+  };
+
+  const handleClearCache = () => {
+    if (!ipcRenderer) return;
+    ipcRenderer.invoke('clear-render-cache').then((stats: RenderCacheStats) => setCacheStats(stats));
+  };
+
   // IPC Listeners (Global listeners are in App.tsx, but we can also handle one-off responses here or rely on App to pass props down)
   // However, since App.tsx handles the global state, this component acts more as a trigger.
   // We will listen locally for the immediate response to our button click.
@@ -43,16 +159,19 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, curren
         setIsStarting(false);
         if (status.success) {
             setServerStatus({ success: true });
-            // Close after a brief success message
-            setTimeout(() => onClose(), 800); 
+            if (isManualStartRef.current) {
+                // Close after a brief success message
+                setTimeout(() => onClose(), 800);
+            }
         } else {
             setServerStatus({ success: false, error: status.error });
         }
+        isManualStartRef.current = false;
     };
 
     ipcRenderer.on('local-server-status', handleStatus);
     return () => {
-        ipcRenderer.removeAllListeners('local-server-status');
+        ipcRenderer.removeListener('local-server-status', handleStatus);
     };
   }, [onClose]);
 
@@ -70,10 +189,45 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, curren
 
     setIsStarting(true);
     setServerStatus(null);
+    isManualStartRef.current = true;
     // Force start on specific port (manual override)
     ipcRenderer.send('start-local-server', port);
   };
 
+  const handleBackendChange = (backend: RenderBackend) => {
+    setHealth(null);
+    setServerStatus(null);
+    onSettingsChange({ renderBackend: backend });
+  };
+
+  const commitCustomUrl = () => {
+    const trimmed = customUrl.trim();
+    if (trimmed !== settings.customServerUrl) {
+        setHealth(null);
+        onSettingsChange({ customServerUrl: trimmed });
+    }
+  };
+
+  // The URL a health check should target for the selected backend
+  const targetUrl = settings.renderBackend === 'custom'
+    ? customUrl.trim().replace(/\/+$/, '')
+    : settings.renderBackend === 'public' ? DEFAULT_SERVER_URL : currentUrl;
+
+  const handleCheckHealth = async () => {
+    if (settings.renderBackend === 'custom') {
+        if (!/^https?:\/\//i.test(targetUrl)) {
+            setHealth({ ok: false, error: '请输入以 http:// 或 https:// 开头的服务地址' });
+            return;
+        }
+        commitCustomUrl();
+    }
+    setIsChecking(true);
+    setHealth(null);
+    const result = await checkServerHealth(targetUrl);
+    setHealth(result);
+    setIsChecking(false);
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -81,7 +235,7 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, curren
       <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-md flex flex-col animate-in fade-in zoom-in duration-200">
         
         <div className="px-6 py-4 border-b border-slate-800 flex justify-between items-center">
-          <h2 className="text-lg font-semibold text-white">本地服务配置</h2>
+          <h2 className="text-lg font-semibold text-white">渲染服务配置</h2>
           <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
             <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" viewBox="0 0 20 20" fill="currentColor">
               <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
@@ -89,50 +243,248 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, curren
           </button>
         </div>
         
-        <div className="p-6 space-y-6">
-            <p className="text-sm text-slate-400">
-                本工具完全离线运行。如果在启动时默认端口 (8080-8090) 均被占用，请在此处手动指定一个可用端口。
-            </p>
-
-            <div className="bg-slate-800/50 p-3 rounded border border-slate-700/50">
-            <p className="text-xs text-slate-300 mb-2">
-                环境要求：
-            </p>
-            <ul className="list-disc list-inside text-xs text-slate-400 space-y-1">
-                <li>已安装 <strong>Java</strong> (JRE/JDK)。</li>
-                <li><strong>plantuml.jar</strong> 必须位于应用根目录。</li>
-            </ul>
+        <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+            <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">
+                渲染后端
+            </label>
+            <div className="space-y-1.5">
+                {BACKEND_OPTIONS.map(option => (
+                    <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                        <input
+                            type="radio"
+                            name="render-backend"
+                            value={option.value}
+                            checked={settings.renderBackend === option.value}
+                            onChange={() => handleBackendChange(option.value)}
+                            className="mt-0.5 accent-brand-500"
+                        />
+                        <span className="text-xs">
+                            <span className="text-slate-200">{option.label}</span>
+                            <span className="block text-slate-500">{option.description}</span>
+                        </span>
+                    </label>
+                ))}
             </div>
+            </div>
+
+            {settings.renderBackend === 'local' && (
+            <>
+              <p className="text-sm text-slate-400">
+                  本工具完全离线运行。如果在启动时默认端口 (8080-8090) 均被占用，请在此处手动指定一个可用端口。
+              </p>
+
+              <div className="bg-slate-800/50 p-3 rounded border border-slate-700/50">
+              <p className="text-xs text-slate-300 mb-2">
+                  环境要求：
+              </p>
+              <ul className="list-disc list-inside text-xs text-slate-400 space-y-1">
+                  <li>已安装 <strong>Java</strong> (JRE/JDK)。</li>
+                  <li><strong>plantuml.jar</strong> 必须位于应用根目录。</li>
+              </ul>
+              </div>
+
+              <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                  本地端口
+              </label>
+              <div className="flex gap-2">
+                  <input
+                      type="number"
+                      value={localPort}
+                      onChange={(e) => setLocalPort(e.target.value)}
+                      className="w-24 bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-brand-500 font-mono outline-none"
+                      placeholder="8080"
+                  />
+                  <button
+                      onClick={handleStartLocal}
+                      disabled={isStarting}
+                      className={`flex-1 flex items-center justify-center gap-2 text-sm font-medium rounded px-4 py-2 transition-all ${
+                          serverStatus?.success 
+                          ? 'bg-green-600 text-white cursor-default'
+                          : 'bg-brand-600 hover:bg-brand-500 text-white'
+                      } disabled:opacity-50 disabled:cursor-not-allowed`}
+                  >
+                      {isStarting && (
+                          <svg className="animate-spin h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                      )}
+                      {serverStatus?.success ? '启动成功' : (isStarting ? '启动中...' : '手动启动服务')}
+                  </button>
+              </div>
+              </div>
+
+              <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                  渲染进程数
+              </label>
+              <div className="flex items-center gap-2">
+                  <input
+                      type="number"
+                      value={workersText}
+                      onChange={(e) => setWorkersText(e.target.value)}
+                      onBlur={commitWorkers}
+                      className="w-24 bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-brand-500 font-mono outline-none"
+                      min={1}
+                      max={8}
+                  />
+                  <span className="text-xs text-slate-500">1-8，每个进程约占用 100-300 MB 内存</span>
+              </div>
+              {renderHealth && renderHealth.workers.length > 0 && (
+                  <ul className="mt-2 space-y-0.5 text-xs font-mono">
+                      {renderHealth.workers.map(worker => (
+                          <li key={worker.id} className="flex items-center gap-2 text-slate-500">
+                              <span className={WORKER_STATE_LABELS[worker.state].className}>●</span>
+                              <span className="text-slate-300">#{worker.id}</span>
+                              {worker.format !== 'svg' && <span className="uppercase">{worker.format}</span>}
+                              {worker.page > 0 && <span>第 {worker.page + 1} 页</span>}
+                              {worker.dir && <span className="truncate max-w-[8rem]" title={worker.dir}>{worker.dir.split(/[\\/]/).filter(Boolean).pop()}</span>}
+                              <span>{WORKER_STATE_LABELS[worker.state].label}</span>
+                              <span>· 已渲染 {worker.rendered}</span>
+                              {worker.timeouts > 0 && <span>· 超时 {worker.timeouts}</span>}
+                              {worker.restarts > 0 && <span>· 重启 {worker.restarts}</span>}
+                          </li>
+                      ))}
+                      {renderHealth.queued > 0 && (
+                          <li className="text-slate-500">排队中: {renderHealth.queued}</li>
+                      )}
+                  </ul>
+              )}
+              </div>
 
+              <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                  !include 搜索路径
+              </label>
+              <textarea
+                  value={includePathsText}
+                  onChange={(e) => setIncludePathsText(e.target.value)}
+                  onBlur={commitIncludePaths}
+                  rows={3}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-brand-500 font-mono outline-none resize-y"
+                  placeholder={'/path/to/shared/styles\nC:\\plantuml\\includes'}
+                  spellCheck={false}
+              />
+              <p className="mt-1 text-xs text-slate-500">
+                  每行一个目录。相对路径的 !include 先在文档所在目录查找，再依次查找这些目录。
+              </p>
+              </div>
+
+              <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                  渲染缓存
+              </label>
+              <div className="flex items-center gap-2">
+                  <input
+                      type="number"
+                      value={cacheSizeText}
+                      onChange={(e) => setCacheSizeText(e.target.value)}
+                      onBlur={commitCacheSize}
+                      className="w-24 bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-brand-500 font-mono outline-none"
+                      min={0}
+                  />
+                  <span className="text-xs text-slate-400">MB</span>
+                  <button
+                      onClick={handleClearCache}
+                      disabled={!ipcRenderer}
+                      className="ml-auto text-xs rounded px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                      清空缓存
+                  </button>
+              </div>
+              {cacheStats && (
+                  <p className="mt-2 text-xs text-slate-500 font-mono">
+                      命中 {cacheStats.hits} · 未命中 {cacheStats.misses}
+                      {cacheStats.hits + cacheStats.misses > 0 && ` · 命中率 ${Math.round(cacheStats.hits / (cacheStats.hits + cacheStats.misses) * 100)}%`}
+                      <br />
+                      {cacheStats.entries} 项 · {formatBytes(cacheStats.bytes)} / {formatBytes(cacheStats.maxBytes)}
+                  </p>
+              )}
+              </div>
+            </>
+            )}
+
+            {settings.renderBackend === 'custom' && (
             <div>
             <label className="block text-sm font-medium text-slate-300 mb-1">
-                本地端口
+                服务器地址
             </label>
-            <div className="flex gap-2">
-                <input
-                    type="number"
-                    value={localPort}
-                    onChange={(e) => setLocalPort(e.target.value)}
-                    className="w-24 bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-brand-500 font-mono outline-none"
-                    placeholder="8080"
-                />
+            <input
+                type="text"
+                value={customUrl}
+                onChange={(e) => setCustomUrl(e.target.value)}
+                onBlur={commitCustomUrl}
+                className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-brand-500 font-mono outline-none"
+                placeholder="http://plantuml.example.com/plantuml"
+                spellCheck={false}
+            />
+            </div>
+            )}
+
+            <div className="flex items-center gap-3">
                 <button
-                    onClick={handleStartLocal}
-                    disabled={isStarting}
-                    className={`flex-1 flex items-center justify-center gap-2 text-sm font-medium rounded px-4 py-2 transition-all ${
-                        serverStatus?.success 
-                        ? 'bg-green-600 text-white cursor-default'
-                        : 'bg-brand-600 hover:bg-brand-500 text-white'
-                    } disabled:opacity-50 disabled:cursor-not-allowed`}
+                    onClick={handleCheckHealth}
+                    disabled={isChecking || !targetUrl}
+                    className="flex items-center gap-2 text-xs font-medium rounded px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                    {isStarting && (
-                        <svg className="animate-spin h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    {isChecking && (
+                        <svg className="animate-spin h-3 w-3 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                         </svg>
                     )}
-                    {serverStatus?.success ? '启动成功' : (isStarting ? '启动中...' : '手动启动服务')}
+                    {isChecking ? '检测中...' : '检测连接'}
                 </button>
+                {health && (
+                    <span className={`text-xs ${health.ok ? 'text-green-400' : 'text-red-400'}`}>
+                        {health.ok
+                            ? `● 服务正常${health.version ? ` · PlantUML ${health.version}` : ''} · ${health.latencyMs} ms`
+                            : `● ${health.error}`}
+                    </span>
+                )}
+            </div>
+
+            <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">
+                URL 编码方式
+            </label>
+            <div className="space-y-1.5">
+                {URL_ENCODING_OPTIONS.map(option => (
+                    <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                        <input
+                            type="radio"
+                            name="url-encoding"
+                            value={option.value}
+                            checked={settings.urlEncoding === option.value}
+                            onChange={() => onSettingsChange({ urlEncoding: option.value })}
+                            className="mt-0.5 accent-brand-500"
+                        />
+                        <span className="text-xs">
+                            <span className="text-slate-200">{option.label}</span>
+                            <span className="block text-slate-500">{option.description}</span>
+                        </span>
+                    </label>
+                ))}
+            </div>
+            </div>
+
+            <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">
+                撤销历史上限
+            </label>
+            <div className="flex items-center gap-2">
+                <input
+                    type="number"
+                    value={undoLimitText}
+                    onChange={(e) => setUndoLimitText(e.target.value)}
+                    onBlur={commitUndoLimit}
+                    className="w-24 bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:ring-1 focus:ring-brand-500 font-mono outline-none"
+                    min={10}
+                    max={10000}
+                />
+                <span className="text-xs text-slate-500">10-10000 步，每个文档单独计算</span>
             </div>
             </div>
 
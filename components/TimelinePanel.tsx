@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+
+/**
+ * One version of the document that can be compared: the buffer being edited,
+ * the content on disk, or a named snapshot.
+ */
+export interface TimelineVersion {
+  id: string;
+  name: string;
+  detail: string;
+  isSnapshot: boolean;
+}
+
+interface TimelinePanelProps {
+  versions: TimelineVersion[]; // Newest first
+  comparison: { baseId: string; targetId: string } | null;
+  onCreateSnapshot: (name: string) => void;
+  onRemoveSnapshot: (id: string) => void;
+  onRestore: (id: string) => void;
+  onCompare: (baseId: string, targetId: string) => void;
+  onClose: () => void;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const formatSnapshotTime = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const TimelinePanel: React.FC<TimelinePanelProps> = ({
+  versions,
+  comparison,
+  onCreateSnapshot,
+  onRemoveSnapshot,
+  onRestore,
+  onCompare,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+  // Compare the previous version (A) with a later one (B); defaults to the newest snapshot against the buffer
+  const [baseId, setBaseId] = useState<string | null>(comparison?.baseId ?? null);
+  const [targetId, setTargetId] = useState<string>(comparison?.targetId ?? 'current');
+
+  const hasVersion = (id: string | null) => !!id && versions.some(version => version.id === id);
+  const effectiveBaseId = hasVersion(baseId) ? baseId : versions.find(version => version.isSnapshot)?.id ?? null;
+  const effectiveTargetId = hasVersion(targetId) ? targetId : versions[0]?.id;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onCreateSnapshot(trimmed);
+    setName('');
+  };
+
+  const canCompare = !!effectiveBaseId && !!effectiveTargetId && effectiveBaseId !== effectiveTargetId;
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 border-l border-slate-800">
+      <div className="flex items-center justify-between px-3 h-10 bg-slate-800 border-b border-slate-700 shrink-0">
+        <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">版本时间线</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+          title="关闭时间线"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+            <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+          </svg>
+        </button>
+      </div>
+
+      <form onSubmit={handleCreate} className="flex items-center gap-1.5 p-2 border-b border-slate-800 shrink-0">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="快照名称，如：评审前"
+          className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:ring-1 focus:ring-brand-500 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="text-xs font-medium rounded px-2 py-1 bg-brand-600 hover:bg-brand-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          创建快照
+        </button>
+      </form>
+
+      <ul className="flex-1 overflow-auto py-1 select-none">
+        {versions.map(version => {
+          const isBase = version.id === effectiveBaseId;
+          const isTarget = version.id === effectiveTargetId;
+          return (
+            <li key={version.id} className="group relative pl-6 pr-2 py-1.5 hover:bg-slate-800/60">
+              {/* Timeline rail and node */}
+              <span className="absolute left-[11px] top-0 bottom-0 w-px bg-slate-700" />
+              <span className={`absolute left-2 top-2.5 w-2 h-2 rounded-full ${version.isSnapshot ? 'bg-brand-500' : 'bg-slate-500'}`} />
+
+              <div className="flex items-center gap-1.5">
+                <span className="flex-1 truncate text-xs text-slate-200" title={version.name}>{version.name}</span>
+                <button
+                  onClick={() => setBaseId(version.id)}
+                  className={`w-4 h-4 rounded text-[10px] leading-4 text-center ${isBase ? 'bg-red-500/80 text-white' : 'text-slate-500 hover:text-white hover:bg-slate-700'}`}
+                  title="设为比较的旧版本 (A)"
+                >
+                  A
+                </button>
+                <button
+                  onClick={() => setTargetId(version.id)}
+                  className={`w-4 h-4 rounded text-[10px] leading-4 text-center ${isTarget ? 'bg-green-600/80 text-white' : 'text-slate-500 hover:text-white hover:bg-slate-700'}`}
+                  title="设为比较的新版本 (B)"
+                >
+                  B
+                </button>
+              </div>
+              <div className="flex items-center gap-2 text-[10px] text-slate-500">
+                <span className="truncate">{version.detail}</span>
+                {version.id !== 'current' && (
+                  <button
+                    onClick={() => onRestore(version.id)}
+                    className="hidden group-hover:inline text-slate-400 hover:text-white"
+                    title="用此版本替换当前内容（可撤销）"
+                  >
+                    恢复
+                  </button>
+                )}
+                {version.isSnapshot && (
+                  <button
+                    onClick={() => onRemoveSnapshot(version.id)}
+                    className="hidden group-hover:inline text-slate-400 hover:text-red-400"
+                  >
+                    删除
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="p-2 border-t border-slate-800 shrink-0">
+        <button
+          onClick={() => canCompare && onCompare(effectiveBaseId!, effectiveTargetId!)}
+          disabled={!canCompare}
+          className="w-full text-xs font-medium rounded px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          比较 A 与 B
+        </button>
+        {!versions.some(version => version.isSnapshot) && (
+          <p className="mt-1.5 text-[10px] text-slate-500">创建快照后，可以与任意版本并排比较文本和图表。</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePanel;
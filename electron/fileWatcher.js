@@ -0,0 +1,93 @@
+const fs = require('fs');
+const { EventEmitter } = require('events');
+
+// Editors and git often write a file in several steps; wait for them to settle
+const CHANGE_DEBOUNCE_MS = 200;
+
+// ==========================================
+// Open File Watcher
+// Emits 'change' (filePath, content) when a watched file's content changes on disk.
+// Writes made by the app itself are recorded with noteContent() and not reported.
+// ==========================================
+class FileWatcher extends EventEmitter {
+  constructor() {
+    super();
+    this.entries = new Map(); // path -> { watcher, timer, content }
+  }
+
+  // Watches exactly the given paths
+  setFiles(filePaths) {
+    const wanted = new Set(filePaths);
+    for (const filePath of this.entries.keys()) {
+      if (!wanted.has(filePath)) this.unwatch(filePath);
+    }
+    wanted.forEach(filePath => {
+      if (!this.entries.has(filePath)) this.watch(filePath);
+    });
+  }
+
+  watch(filePath) {
+    const entry = { watcher: null, timer: null, content: null };
+    this.entries.set(filePath, entry);
+    this.attach(filePath, entry);
+
+    // Remember the current content so the first event can be compared against it
+    fs.promises.readFile(filePath, 'utf8')
+      .then(content => {
+        if (entry.content === null) entry.content = content;
+      })
+      .catch(() => {});
+  }
+
+  attach(filePath, entry) {
+    if (entry.watcher) entry.watcher.close();
+    entry.watcher = null;
+    try {
+      entry.watcher = fs.watch(filePath, () => this.schedule(filePath, entry));
+      entry.watcher.on('error', () => this.schedule(filePath, entry));
+    } catch (e) {
+      // File is missing right now (e.g. mid checkout); the next check retries
+    }
+  }
+
+  schedule(filePath, entry) {
+    clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => this.check(filePath, entry), CHANGE_DEBOUNCE_MS);
+  }
+
+  async check(filePath, entry) {
+    // Atomic saves replace the file, which ends the old watch; watch the new file
+    this.attach(filePath, entry);
+
+    let content;
+    try {
+      content = await fs.promises.readFile(filePath, 'utf8');
+    } catch (e) {
+      return; // Deleted or not yet recreated
+    }
+    if (this.entries.get(filePath) !== entry || content === entry.content) return;
+
+    entry.content = content;
+    this.emit('change', filePath, content);
+  }
+
+  // Records content the app itself wrote, so the resulting event is ignored
+  noteContent(filePath, content) {
+    const entry = this.entries.get(filePath);
+    if (entry) entry.content = content;
+  }
+
+  unwatch(filePath) {
+    const entry = this.entries.get(filePath);
+    if (!entry) return;
+    clearTimeout(entry.timer);
+    if (entry.watcher) entry.watcher.close();
+    this.entries.delete(filePath);
+  }
+
+  close() {
+    [...this.entries.keys()].forEach(filePath => this.unwatch(filePath));
+  }
+}
+
+module.exports = { FileWatcher };
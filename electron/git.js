@@ -0,0 +1,40 @@
+const { execFile } = require('child_process');
+const path = require('path');
+
+// `git show` of a diagram is small; anything slower than this means git is stuck (e.g. a lock or prompt)
+const GIT_TIMEOUT_MS = 5000;
+const GIT_MAX_BUFFER = 16 * 1024 * 1024;
+
+const runGit = (cwd, args) => new Promise((resolve, reject) => {
+  execFile('git', args, { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_BUFFER, windowsHide: true }, (err, stdout) => {
+    if (err) reject(err);
+    else resolve(stdout);
+  });
+});
+
+// ==========================================
+// Committed Versions (git show)
+// ==========================================
+// Resolves to { status: 'tracked', content } with the file as committed in HEAD,
+// { status: 'untracked' } for a file inside a working tree but not in HEAD, or
+// null when the file is not in a git working tree (or git is not installed).
+const readHeadVersion = async (filePath) => {
+  const dir = path.dirname(filePath);
+  try {
+    const inside = await runGit(dir, ['rev-parse', '--is-inside-work-tree']);
+    if (inside.trim() !== 'true') return null;
+  } catch (e) {
+    return null;
+  }
+
+  try {
+    // "./name" is resolved against cwd, so no repository-relative path is needed
+    const content = await runGit(dir, ['show', `HEAD:./${path.basename(filePath)}`]);
+    return { status: 'tracked', content };
+  } catch (e) {
+    // New file, or a repository without commits yet
+    return { status: 'untracked' };
+  }
+};
+
+module.exports = { readHeadVersion };
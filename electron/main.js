@@ -1,23 +1,72 @@
-const { app, BrowserWindow, ipcMain } = require('electron');
+const { app, BrowserWindow, ipcMain, dialog } = require('electron');
 const path = require('path');
 const http = require('http');
 const { spawn } = require('child_process');
+const { EventEmitter } = require('events');
 const url = require('url');
 const fs = require('fs');
 const net = require('net');
+const zlib = require('zlib');
+const { RenderCache } = require('./renderCache');
+const { PlantUMLWorker } = require('./plantumlWorker');
+const { readWorkspaceTree } = require('./workspace');
+const { RecentFiles } = require('./recentFiles');
+const { FileWatcher } = require('./fileWatcher');
+const { SessionStore } = require('./sessionStore');
+const { readHeadVersion } = require('./git');
+
+const DEFAULT_RENDER_CACHE_BYTES = 64 * 1024 * 1024;
+const DEFAULT_POOL_SIZE = 2;
+const MAX_POOL_SIZE = 8;
+// Exports and later `newpage` pages are rendered rarely, so each (format, page) gets
+// a single lazily started process, and only a few of those run at once
+const EXPORT_WORKERS_PER_GROUP = 1;
+const MAX_EXPORT_WORKERS = 4;
+
+// Output formats served by the local service: route -> PlantUML `-t<type>` and Content-Type
+const OUTPUT_FORMATS = {
+  svg: { type: 'svg', contentType: 'image/svg+xml; charset=utf-8' },
+  png: { type: 'png', contentType: 'image/png' },
+  pdf: { type: 'pdf', contentType: 'application/pdf' },
+  eps: { type: 'eps', contentType: 'application/postscript' },
+  latex: { type: 'latex', contentType: 'application/x-latex; charset=utf-8' },
+  // Unicode box-drawing art, as pasted into code comments
+  txt: { type: 'utxt', contentType: 'text/plain; charset=utf-8' }
+};
+
+// The live preview pool: first page as SVG
+const isPreviewWorker = (worker) => worker.format === 'svg' && worker.page === 0;
+
+// Sources that read other files (!include, !include_many, !includesub, !import, ...)
+const INCLUDE_REGEX = /^\s*!(include|import)/m;
 
 let mainWindow;
 let localServer = null;
+// Names of documents with unsaved changes, reported by the renderer
+let dirtyDocuments = [];
+// Set once the user agreed to close despite (or after saving) unsaved changes
+let isCloseConfirmed = false;
 
 // ==========================================
-// PlantUML Persistent Process Manager
+// PlantUML Persistent Process Pool
 // ==========================================
-class PlantUMLService {
+class PlantUMLService extends EventEmitter {
   constructor() {
-    this.process = null;
+    super();
+    this.workers = [];
+    this.poolSize = DEFAULT_POOL_SIZE;
+    this.nextWorkerId = 1;
+    // Requests waiting for an idle worker, in arrival order
     this.queue = [];
-    this.buffer = '';
-    this.isRestarting = false;
+    // A pre-spawned `-syntax` process waiting for input, so checks skip JVM startup: { dir, child }
+    this.syntaxSpare = null;
+    // Syntax checks run one at a time; the rest wait here in arrival order
+    this.syntaxQueue = [];
+    this.syntaxActive = null;
+    // Searched for relative `!include`s after the document's own directory
+    this.includePaths = [];
+    // Survives process restarts: cached output does not depend on the Java process
+    this.cache = new RenderCache(DEFAULT_RENDER_CACHE_BYTES);
   }
 
   getJarPath() {
@@ -28,143 +77,414 @@ class PlantUMLService {
     }
   }
 
-  start() {
-    this.stop(); // Ensure clean slate
+  assertJarExists() {
     const jarPath = this.getJarPath();
-    
     if (!fs.existsSync(jarPath)) {
       throw new Error(`找不到 plantuml.jar 文件。\n路径: ${jarPath}`);
     }
+    return jarPath;
+  }
 
-    // Start Java in pipe mode (-pipe) which reads from STDIN and writes to STDOUT
-    // -Djava.awt.headless=true is crucial for server environments
-    this.process = spawn('java', [
-      '-Djava.awt.headless=true', 
-      '-Dfile.encoding=UTF-8', 
-      '-jar', jarPath, 
-      '-pipe', 
-      '-tsvg',
-      '-charset', 'UTF-8'
-    ]);
+  createWorker(format = 'svg', page = 0, dir = null) {
+    const worker = new PlantUMLWorker(this.nextWorkerId++, this.getJarPath(), format, page, dir, this.includePaths);
+    worker.on('idle', () => this.dispatch());
+    worker.on('health', () => this.emit('health', this.getHealth()));
+    this.workers.push(worker);
+    return worker;
+  }
 
-    this.process.stdout.on('data', (chunk) => {
-      this.buffer += chunk.toString();
-      this.processBuffer();
-    });
+  // Workers are grouped by output (format, page) and by the directory `!include` resolves against
+  workersFor(format, page, dir = null) {
+    return this.workers.filter(w => w.format === format && w.page === page && w.dir === dir);
+  }
 
-    this.process.stderr.on('data', (chunk) => {
-      // PlantUML outputs some info to stderr, log it but don't crash
-      console.log('PlantUML Stderr:', chunk.toString());
-    });
+  // SVG page 0 drives the live preview and uses the configured pool size; the rest are exports
+  workerLimit(format, page) {
+    return format === 'svg' && page === 0 ? this.poolSize : EXPORT_WORKERS_PER_GROUP;
+  }
 
-    this.process.on('close', (code) => {
-      console.log(`PlantUML process exited with code ${code}`);
-      this.process = null;
-      // Reject all pending requests
-      while (this.queue.length > 0) {
-        const { reject } = this.queue.shift();
-        reject(new Error('PlantUML process closed unexpectedly'));
-      }
-    });
+  // Pre-starts the preview pool
+  start() {
+    this.stop(); // Ensure clean slate
+    this.assertJarExists();
 
-    this.process.on('error', (err) => {
-      console.error('Failed to start PlantUML process:', err);
-    });
+    while (this.workers.length < this.poolSize) {
+      this.createWorker('svg');
+    }
+    this.workers.forEach(worker => worker.start());
+    this.emit('health', this.getHealth());
   }
 
   stop() {
-    if (this.process) {
-      this.process.kill();
-      this.process = null;
+    this.workers.forEach(worker => worker.stop());
+    this.workers = [];
+    // Reject all pending requests
+    while (this.queue.length > 0) {
+      const { reject } = this.queue.shift();
+      reject(new Error('PlantUML service stopped'));
     }
-    this.queue = [];
-    this.buffer = '';
-  }
-
-  // Handle the output stream from PlantUML
-  processBuffer() {
-    // We look for the closing </svg> tag to identify a complete diagram
-    const delimiter = '</svg>';
-    let splitIndex = this.buffer.indexOf(delimiter);
-
-    while (splitIndex !== -1) {
-      // Extract the complete SVG part
-      const svgContent = this.buffer.substring(0, splitIndex + delimiter.length);
-      // Remove it from the buffer
-      this.buffer = this.buffer.substring(splitIndex + delimiter.length);
-
-      // Resolve the oldest request in the queue
-      const request = this.queue.shift();
-      if (request) {
-        clearTimeout(request.timeoutId);
-        request.resolve(svgContent);
+    while (this.syntaxQueue.length > 0) {
+      this.syntaxQueue.shift().reject(new Error('PlantUML service stopped'));
+    }
+    if (this.syntaxActive) {
+      const active = this.syntaxActive;
+      this.syntaxActive = null; // So its exit neither starts the next check nor a spare
+      active.child.kill();
+      active.reject(new Error('PlantUML service stopped'));
+    }
+    this.stopSyntaxSpare();
+    this.emit('health', this.getHealth());
+  }
+
+  setPoolSize(size) {
+    this.poolSize = Math.max(1, Math.min(MAX_POOL_SIZE, size));
+
+    // Shrink: drop idle preview workers first; busy ones are retired once they finish
+    let previewCount = this.workers.filter(isPreviewWorker).length;
+    for (let i = this.workers.length - 1; i >= 0 && previewCount > this.poolSize; i--) {
+      const worker = this.workers[i];
+      if (isPreviewWorker(worker) && worker.isIdle) {
+        worker.stop();
+        this.workers.splice(i, 1);
+        previewCount--;
       }
+    }
+    this.dispatch();
+    this.emit('health', this.getHealth());
+  }
 
-      // Check for next diagram
-      splitIndex = this.buffer.indexOf(delimiter);
+  // Idle worker for the format, page and directory, growing that group lazily up to its limit
+  acquireWorker(format, page, dir = null) {
+    const candidates = this.workersFor(format, page, dir);
+    const worker = candidates.find(w => w.isIdle && w.state === 'idle')
+      || candidates.find(w => w.isIdle);
+    if (worker) return worker;
+    if (candidates.length >= this.workerLimit(format, page)) return null;
+
+    // Preview workers of all directories share the pool size, export workers share MAX_EXPORT_WORKERS.
+    // Make room by retiring the least recently used idle worker of the same kind.
+    const isPreview = format === 'svg' && page === 0;
+    const sameKind = this.workers.filter(w => isPreviewWorker(w) === isPreview);
+    if (sameKind.length >= (isPreview ? this.poolSize : MAX_EXPORT_WORKERS)) {
+      const victim = sameKind
+        .filter(w => w.isIdle)
+        .sort((a, b) => a.lastUsedAt - b.lastUsedAt)[0];
+      if (!victim) return null;
+      victim.stop();
+      this.workers.splice(this.workers.indexOf(victim), 1);
     }
+    return this.createWorker(format, page, dir);
   }
 
-  async generateSvg(pumlCode) {
-    if (!this.process) {
-      try {
-        this.start();
-      } catch (e) {
-        return Promise.reject(e);
+  // Route queued requests to idle workers of their format and page
+  dispatch() {
+    // Retire workers started with old include paths, and preview workers beyond the configured size, once they are idle
+    let previewCount = 0;
+    this.workers = this.workers.filter(worker => {
+      if (worker.includePaths !== this.includePaths && worker.isIdle) {
+        worker.stop();
+        return false;
+      }
+      if (!isPreviewWorker(worker)) return true;
+      if (previewCount >= this.poolSize && worker.isIdle) {
+        worker.stop();
+        return false;
+      }
+      previewCount++;
+      return true;
+    });
+
+    // A busy group must not hold back requests for another one, so skip instead of stopping
+    for (let i = 0; i < this.queue.length;) {
+      const request = this.queue[i];
+      const worker = this.acquireWorker(request.format, request.page, request.dir);
+      if (!worker) {
+        i++;
+        continue;
       }
+      this.queue.splice(i, 1);
+      worker.render(request.pumlCode, request.diagramCount).then(request.resolve, request.reject);
     }
+  }
+
+  // Drops queued (not yet sent to Java) requests of a document, since a newer version replaces them.
+  // Returns how many were dropped.
+  supersede(docId) {
+    const stale = this.queue.filter(r => r.docId === docId);
+    if (stale.length === 0) return 0;
+
+    this.queue = this.queue.filter(r => r.docId !== docId);
+    stale.forEach(request => {
+      const err = new Error('Superseded by a newer render of the same document');
+      err.code = 'SUPERSEDED';
+      request.reject(err);
+    });
+    this.emit('health', this.getHealth());
+    return stale.length;
+  }
+
+  // Applies to processes started from now on; running ones are replaced as they become idle
+  setIncludePaths(includePaths) {
+    const paths = includePaths.filter(p => typeof p === 'string' && p.trim()).map(p => p.trim());
+    if (paths.join('\n') === this.includePaths.join('\n')) return;
+    this.includePaths = paths;
+    this.stopSyntaxSpare();
+    this.dispatch();
+    this.emit('health', this.getHealth());
+  }
+
+  // Resolves to a Buffer in the requested PlantUML output type (see OUTPUT_FORMATS).
+  // options.docId tags the request so a newer version of the same document can supersede it;
+  // options.dir is the document's directory, which relative `!include`s resolve against
+  async generate(pumlCode, options = {}) {
+    const { format = 'svg', page = 0, docId = null, dir = null } = options;
 
     // CRITICAL: Check for completeness.
     // In -pipe mode, if we send text without a closing tag (e.g. @enduml), 
-    // PlantUML will hang waiting for more input, blocking the entire queue.
+    // PlantUML will hang waiting for more input, blocking the worker.
     // We do a loose check for common end tags.
     const hasEndTag = /@enduml|@endmindmap|@endwbs|@endgantt|@endsalt|@endjson|@endyaml|@endmath|@endlatex/i.test(pumlCode);
     
     if (!hasEndTag) {
+      if (format !== 'svg') {
+        const err = new Error('Diagram source is incomplete');
+        err.code = 'INCOMPLETE';
+        throw err;
+      }
       // Return a placeholder SVG indicating incomplete code instead of blocking the pipe
-      return Promise.resolve(
+      return Buffer.from(
         '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="60"><text x="10" y="40" font-family="sans-serif" font-size="14" fill="#888">...</text></svg>'
       );
     }
 
-    return new Promise((resolve, reject) => {
-      // 10s timeout to prevent infinite hanging if something goes wrong
-      const timeoutId = setTimeout(() => {
-        // If timeout, assume process state is corrupted/desynced. Restart it.
-        console.warn('PlantUML rendering timed out, restarting process...');
-        const originalQueue = [...this.queue];
-        const currentReqIndex = originalQueue.findIndex(r => r.resolve === resolve);
-        
-        // Remove self from queue
-        if (currentReqIndex !== -1) {
-            this.queue.splice(currentReqIndex, 1);
-        }
+    // Undo/redo and template switches often re-request recent diagrams.
+    // Included files can change without the source changing, so those diagrams are never cached.
+    const isCacheable = !INCLUDE_REGEX.test(pumlCode);
+    const cacheKey = RenderCache.key(pumlCode, format, page, [dir || '', ...this.includePaths].join('\0'));
+    const cached = isCacheable ? this.cache.get(cacheKey) : undefined;
+    if (cached !== undefined) {
+      return cached;
+    }
 
-        this.restart();
-        reject(new Error('Rendering timed out'));
-      }, 10000);
+    // -pipe answers every @start block separately; like the PlantUML server, serve the first one
+    const diagramCount = (pumlCode.match(/^\s*@start\w+/gim) || []).length;
 
-      this.queue.push({ resolve, reject, timeoutId });
+    this.assertJarExists();
+    const outputs = await new Promise((resolve, reject) => {
+      this.queue.push({ pumlCode, format, page, dir, docId, diagramCount, resolve, reject });
+      this.dispatch();
+    });
+    const data = outputs[0];
+    if (isCacheable) this.cache.set(cacheKey, data);
+    return data;
+  }
 
-      // Write code to STDIN
-      // Ensure it ends with a newline to trigger processing
-      try {
-        this.process.stdin.write(pumlCode + '\n');
-      } catch (err) {
-        clearTimeout(timeoutId);
-        reject(err);
+  // Aggregate health of the pool for the UI
+  getHealth() {
+    const workers = this.workers.map(w => w.getHealth());
+    const running = workers.filter(w => w.state === 'idle' || w.state === 'busy').length;
+    const crashed = workers.filter(w => w.state === 'crashed').length;
+    let status = 'stopped';
+    if (workers.length > 0) {
+      status = crashed === 0 ? 'ok' : (running > 0 ? 'degraded' : 'down');
+    }
+    return {
+      status,
+      poolSize: this.poolSize,
+      running,
+      busy: workers.filter(w => w.state === 'busy').length,
+      queued: this.queue.length,
+      workers
+    };
+  }
+
+  // ------------------------------------------
+  // Syntax Check (no rendering)
+  // ------------------------------------------
+
+  spawnSyntaxProcess(dir = null) {
+    const jarPath = this.assertJarExists();
+    // -syntax reads the whole of STDIN, reports diagram type or errors, and exits.
+    // It has no -filedir, so relative includes resolve against the working directory.
+    const child = spawn('java', [
+      '-Djava.awt.headless=true',
+      '-Dfile.encoding=UTF-8',
+      ...(this.includePaths.length > 0 ? [`-Dplantuml.include.path=${this.includePaths.join(path.delimiter)}`] : []),
+      '-jar', jarPath,
+      '-syntax',
+      '-charset', 'UTF-8'
+    ], dir ? { cwd: dir } : undefined);
+    child.on('error', (err) => {
+      console.error('Failed to start PlantUML syntax process:', err);
+    });
+    return child;
+  }
+
+  // The spare if it was started for this directory, otherwise a new process
+  takeSyntaxProcess(dir = null) {
+    const spare = this.syntaxSpare;
+    this.syntaxSpare = null;
+    if (spare && spare.dir === dir && spare.child.exitCode === null && !spare.child.killed) {
+      return spare.child;
+    }
+    if (spare) spare.child.kill(); // Started in another directory, or died
+    return this.spawnSyntaxProcess(dir);
+  }
+
+  // Warms up the next process while nothing is checking, expecting the same document
+  startSyntaxSpare(dir = null) {
+    if (this.syntaxActive || this.syntaxQueue.length > 0 || this.syntaxSpare) return;
+    try {
+      this.syntaxSpare = { dir, child: this.spawnSyntaxProcess(dir) };
+    } catch (e) {
+      this.syntaxSpare = null;
+    }
+  }
+
+  stopSyntaxSpare() {
+    if (this.syntaxSpare) {
+      this.syntaxSpare.child.kill();
+      this.syntaxSpare = null;
+    }
+  }
+
+  // Validates the source without rendering. Resolves to { diagramType, description, diagnostics }.
+  // Aborting `signal` (the client went away) drops a queued check or kills the running one;
+  // the promise then rejects with code 'ABORTED'.
+  checkSyntax(pumlCode, dir = null, signal = null) {
+    return new Promise((resolve, reject) => {
+      const request = { pumlCode, dir, resolve, reject, child: null, aborted: false };
+
+      if (signal) {
+        if (signal.aborted) {
+          reject(abortedError());
+          return;
+        }
+        signal.addEventListener('abort', () => {
+          if (request.child) {
+            request.aborted = true;
+            request.child.kill(); // Its 'close' handler rejects and starts the next check
+            return;
+          }
+          const index = this.syntaxQueue.indexOf(request);
+          if (index !== -1) {
+            this.syntaxQueue.splice(index, 1);
+            reject(abortedError());
+          }
+        }, { once: true });
       }
+
+      this.syntaxQueue.push(request);
+      this.runNextSyntaxCheck();
     });
   }
 
-  restart() {
-    this.stop();
-    this.start();
+  runNextSyntaxCheck() {
+    if (this.syntaxActive || this.syntaxQueue.length === 0) return;
+    const request = this.syntaxQueue.shift();
+
+    let child;
+    try {
+      child = this.takeSyntaxProcess(request.dir);
+    } catch (e) {
+      request.reject(e);
+      this.runNextSyntaxCheck();
+      return;
+    }
+    request.child = child;
+    this.syntaxActive = request;
+
+    let output = '';
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, 10000);
+
+    const finish = () => {
+      clearTimeout(timeoutId);
+      if (this.syntaxActive !== request) return; // 'error' and 'close' can both fire
+      this.syntaxActive = null;
+      if (this.syntaxQueue.length > 0) this.runNextSyntaxCheck();
+      else this.startSyntaxSpare(request.dir);
+    };
+
+    child.stdout.on('data', (chunk) => {
+      output += chunk.toString();
+    });
+    child.on('close', () => {
+      if (request.aborted) request.reject(abortedError());
+      else if (timedOut) request.reject(new Error('Syntax check timed out'));
+      else request.resolve(parseSyntaxOutput(output));
+      finish();
+    });
+    child.on('error', (err) => {
+      request.reject(err);
+      finish();
+    });
+
+    child.stdin.on('error', () => {}); // Process may exit before consuming STDIN
+    child.stdin.end(request.pumlCode + '\n');
   }
 }
 
+const abortedError = () => {
+  const err = new Error('Syntax check aborted by the client');
+  err.code = 'ABORTED';
+  return err;
+};
+
+// Parses `-syntax` output. Each block reports either
+//   <DIAGRAM_TYPE>\n<description>
+// or
+//   ERROR\n<0-based line>\n<error line>...
+const parseSyntaxOutput = (output) => {
+  const lines = output.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  const result = { diagramType: null, description: undefined, diagnostics: [] };
+
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i] === 'ERROR') {
+      const position = parseInt(lines[i + 1], 10);
+      const messages = [];
+      const hints = [];
+      i += 2;
+      // Error lines run until the next block header (an all-caps type line)
+      while (i < lines.length && !/^[A-Z_]+$/.test(lines[i])) {
+        const hintMatch = lines[i].match(/^Did you mean\s*:?\s*(.*?)\??$/i);
+        if (hintMatch) {
+          if (hintMatch[1]) hints.push(hintMatch[1]);
+        } else {
+          messages.push(lines[i]);
+        }
+        i++;
+      }
+      result.diagnostics.push({
+        line: isNaN(position) ? undefined : position + 1,
+        message: messages.join(' ') || 'Syntax Error?',
+        hints,
+        severity: 'error'
+      });
+    } else {
+      if (!result.diagramType && lines[i] !== 'OTHER') {
+        result.diagramType = lines[i];
+        result.description = lines[i + 1];
+      }
+      i += 2;
+    }
+  }
+  return result;
+};
+
 const plantUmlService = new PlantUMLService();
 
+// Push pool health to the renderer whenever a worker changes state
+plantUmlService.on('health', (health) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('render-health', health);
+  }
+});
+
 // ==========================================
 // Electron Window Management
 // ==========================================
@@ -183,6 +503,29 @@ function createWindow() {
     autoHideMenuBar: true,
   });
 
+  // Ask before losing unsaved changes
+  mainWindow.on('close', (e) => {
+    if (isCloseConfirmed || dirtyDocuments.length === 0) return;
+    e.preventDefault();
+
+    const choice = dialog.showMessageBoxSync(mainWindow, {
+      type: 'warning',
+      buttons: ['保存', '不保存', '取消'],
+      defaultId: 0,
+      cancelId: 2,
+      title: '未保存的修改',
+      message: '以下文档有未保存的修改，关闭前是否保存？',
+      detail: dirtyDocuments.join('\n')
+    });
+    if (choice === 0) {
+      // The renderer saves everything, then confirms with 'close-window'
+      mainWindow.webContents.send('save-all-before-close');
+    } else if (choice === 1) {
+      // The renderer drops the unsaved changes from the session, then confirms with 'close-window'
+      mainWindow.webContents.send('discard-unsaved-before-close');
+    }
+  });
+
   const isDev = !app.isPackaged; 
 
   if (isDev) {
@@ -205,6 +548,7 @@ app.whenReady().then(() => {
 app.on('window-all-closed', () => {
   // Stop background process when all windows closed
   plantUmlService.stop();
+  fileWatcher.close();
   if (process.platform !== 'darwin') {
     app.quit();
   }
@@ -214,6 +558,38 @@ app.on('will-quit', () => {
   plantUmlService.stop();
 });
 
+// ==========================================
+// URL Decoding
+// ==========================================
+
+// PlantUML uses its own base64 alphabet: 0-9, A-Z, a-z, '-', '_'
+const PLANTUML_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+
+const decodePlantUMLBase64 = (text) => {
+  const bytes = [];
+  for (let i = 0; i < text.length; i += 4) {
+    const c = [0, 1, 2, 3].map(k => {
+      if (i + k >= text.length) return 0;
+      const v = PLANTUML_ALPHABET.indexOf(text[i + k]);
+      if (v === -1) throw new Error(`Invalid character in encoded diagram: ${text[i + k]}`);
+      return v;
+    });
+    bytes.push((c[0] << 2) | (c[1] >> 4));
+    bytes.push(((c[1] & 0xf) << 4) | (c[2] >> 2));
+    bytes.push(((c[2] & 0x3) << 6) | c[3]);
+  }
+  return Buffer.from(bytes);
+};
+
+// Decodes either `~h<HEX>` or the standard Deflate + PlantUML base64 encoding
+const decodePlantUMLSource = (encoded) => {
+  if (encoded.startsWith('~h')) {
+    return Buffer.from(encoded.substring(2), 'hex').toString('utf8');
+  }
+  // Encoders zero-pad the last base64 group, so allow trailing garbage after the final block
+  return zlib.inflateRawSync(decodePlantUMLBase64(encoded), { finishFlush: zlib.constants.Z_SYNC_FLUSH }).toString('utf8');
+};
+
 // ==========================================
 // Local HTTP Server Logic
 // ==========================================
@@ -239,11 +615,22 @@ const tryListen = (server, port) => {
   });
 };
 
+// Only existing absolute directories are used as a working directory
+const resolveIncludeDir = (dir) => {
+  if (!dir || !path.isAbsolute(dir)) return null;
+  try {
+    return fs.statSync(dir).isDirectory() ? path.normalize(dir) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
 const createServerInstance = (event) => {
     const server = http.createServer(async (req, res) => {
       // CORS & Headers
       res.setHeader('Access-Control-Allow-Origin', '*');
       res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+      res.setHeader('Access-Control-Expose-Headers', 'X-Render-Skipped, X-Render-Superseded');
       
       if (req.method === 'OPTIONS') {
         res.writeHead(204);
@@ -253,28 +640,80 @@ const createServerInstance = (event) => {
 
       try {
         const parsedUrl = url.parse(req.url);
-        // Path: /svg/~h<HEX>
-        const parts = parsedUrl.pathname.split('/');
-        const hexIndex = parts.findIndex(p => p.startsWith('~h'));
-
-        if (hexIndex === -1) {
+        // Path: /<route>/[<PAGE>/]<ENCODED>, where <ENCODED> is ~h<HEX> or standard Deflate
+        // and <PAGE> the optional 0-based `newpage` page, as on the PlantUML server
+        // Routes: svg/png/pdf/eps/latex/txt (render), check (syntax check only, JSON)
+        const parts = parsedUrl.pathname.split('/').filter(Boolean);
+        const hasPage = parts.length === 3 && /^\d+$/.test(parts[1]);
+        const route = parts[0];
+        const encoded = hasPage ? parts[2] : parts[1];
+        const page = hasPage ? parseInt(parts[1], 10) : 0;
+
+        if (!encoded || (!OUTPUT_FORMATS[route] && route !== 'check')) {
           res.writeHead(400);
           res.end('Invalid path');
           return;
         }
 
-        const hex = parts[hexIndex].substring(2); // Remove ~h
-        const pumlCode = Buffer.from(hex, 'hex').toString('utf8');
+        let pumlCode;
+        try {
+          pumlCode = decodePlantUMLSource(encoded);
+        } catch (e) {
+          res.writeHead(400);
+          res.end('Invalid encoding');
+          return;
+        }
+
+        // ?dir=<absolute directory> resolves relative !include like a file saved there
+        const query = new URLSearchParams(parsedUrl.query || '');
+        const dir = resolveIncludeDir(query.get('dir'));
+
+        if (route === 'check') {
+          // The renderer aborts checks of text it has since changed; stop checking it too
+          const controller = new AbortController();
+          res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+          });
+          try {
+            const result = await plantUmlService.checkSyntax(pumlCode, dir, controller.signal);
+            res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' });
+            res.end(JSON.stringify(result));
+          } catch (err) {
+            if (err.code === 'ABORTED') return;
+            console.error("Syntax Check Error:", err);
+            res.writeHead(500, { 'Content-Type': 'application/json; charset=utf-8' });
+            res.end(JSON.stringify({ error: err.message }));
+          }
+          return;
+        }
+
+        // Renders tagged with ?doc=<id> replace older queued renders of that document
+        const docId = query.get('doc');
+        const skipped = docId ? plantUmlService.supersede(docId) : 0;
 
         // Use the persistent service
         try {
-            const svgData = await plantUmlService.generateSvg(pumlCode);
-            res.writeHead(200, { 'Content-Type': 'image/svg+xml; charset=utf-8' });
-            res.end(svgData);
+            const { type, contentType } = OUTPUT_FORMATS[route];
+            const data = await plantUmlService.generate(pumlCode, { format: type, page, docId, dir });
+            res.writeHead(200, {
+              'Content-Type': contentType,
+              'X-Render-Skipped': String(skipped)
+            });
+            res.end(data);
         } catch (err) {
+            if (err.code === 'SUPERSEDED') {
+              res.writeHead(409, { 'X-Render-Superseded': '1' });
+              res.end();
+              return;
+            }
+            if (err.code === 'INCOMPLETE') {
+              res.writeHead(400);
+              res.end('Incomplete diagram: missing @end tag');
+              return;
+            }
             console.error("Generation Error:", err);
             res.writeHead(500);
-            res.end('<svg><text y="20" fill="red">Server Error</text></svg>');
+            res.end(route === 'svg' ? '<svg><text y="20" fill="red">Server Error</text></svg>' : 'Server Error');
         }
 
       } catch (e) {
@@ -292,7 +731,8 @@ const createServerInstance = (event) => {
     return server;
 }
 
-ipcMain.on('start-local-server', async (event, specificPort = null) => {
+// specificPort: only that port. Otherwise preferredPort (e.g. the last session's) first, then a scan.
+ipcMain.on('start-local-server', async (event, specificPort = null, preferredPort = null) => {
   // Stop existing HTTP server
   if (localServer) {
     localServer.close();
@@ -323,21 +763,25 @@ ipcMain.on('start-local-server', async (event, specificPort = null) => {
           localServer = null;
       }
   } else {
-      // Auto Mode: Scan 8080 -> 8090
-      let currentPort = startPort;
+      // Auto Mode: Scan 8080 -> 8090, after the preferred port
+      const ports = [];
+      if (preferredPort) ports.push(preferredPort);
+      for (let port = startPort; port <= endPort; port++) {
+          if (port !== preferredPort) ports.push(port);
+      }
       let started = false;
 
-      while (currentPort <= endPort && !started) {
+      for (const currentPort of ports) {
           localServer = createServerInstance(event);
           try {
               await tryListen(localServer, currentPort);
               started = true;
               console.log(`Local PlantUML server started on auto-detected port ${currentPort}`);
               event.reply('local-server-status', { success: true, port: currentPort });
+              break;
           } catch (e) {
               console.log(`Port ${currentPort} is busy, trying next...`);
               localServer = null; // Clean up failed instance
-              currentPort++;
           }
       }
 
@@ -350,6 +794,31 @@ ipcMain.on('start-local-server', async (event, specificPort = null) => {
   }
 });
 
+ipcMain.on('set-render-cache-size', (event, maxBytes) => {
+  if (typeof maxBytes === 'number' && maxBytes >= 0) {
+    plantUmlService.cache.setMaxBytes(maxBytes);
+  }
+});
+
+ipcMain.on('set-include-paths', (event, includePaths) => {
+  plantUmlService.setIncludePaths(Array.isArray(includePaths) ? includePaths : []);
+});
+
+ipcMain.on('set-render-pool-size', (event, size) => {
+  if (typeof size === 'number' && size >= 1) {
+    plantUmlService.setPoolSize(size);
+  }
+});
+
+ipcMain.handle('get-render-health', () => plantUmlService.getHealth());
+
+ipcMain.handle('get-render-cache-stats', () => plantUmlService.cache.getStats());
+
+ipcMain.handle('clear-render-cache', () => {
+  plantUmlService.cache.clear();
+  return plantUmlService.cache.getStats();
+});
+
 ipcMain.on('stop-local-server', (event) => {
   if (localServer) {
     localServer.close();
@@ -359,3 +828,150 @@ ipcMain.on('stop-local-server', (event) => {
   // Also stop the Java process to save RAM
   plantUmlService.stop();
 });
+
+// ==========================================
+// Workspace & File Access
+// ==========================================
+
+// Resolves to { root, entries } or null when the dialog is cancelled
+ipcMain.handle('open-workspace-folder', async () => {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: '打开文件夹',
+    properties: ['openDirectory']
+  });
+  if (result.canceled || result.filePaths.length === 0) return null;
+
+  const root = result.filePaths[0];
+  return { root, entries: await readWorkspaceTree(root) };
+});
+
+ipcMain.handle('read-workspace-tree', (event, root) => readWorkspaceTree(root));
+
+ipcMain.handle('read-file', (event, filePath) => fs.promises.readFile(filePath, 'utf8'));
+
+// The committed version of a file, for comparing the working copy with HEAD
+ipcMain.handle('read-git-head', (event, filePath) => readHeadVersion(filePath));
+
+ipcMain.handle('write-file', async (event, filePath, content) => {
+  fileWatcher.noteContent(filePath, content);
+  await fs.promises.writeFile(filePath, content, 'utf8');
+  return true;
+});
+
+const DIAGRAM_FILE_FILTERS = [
+  { name: 'PlantUML', extensions: ['puml', 'plantuml', 'pu', 'iuml', 'wsd'] },
+  { name: '所有文件', extensions: ['*'] }
+];
+
+// Resolves to { path, content } or null when the dialog is cancelled
+ipcMain.handle('open-file-dialog', async () => {
+  const result = await dialog.showOpenDialog(mainWindow, {
+    title: '打开文件',
+    properties: ['openFile'],
+    filters: DIAGRAM_FILE_FILTERS
+  });
+  if (result.canceled || result.filePaths.length === 0) return null;
+
+  const filePath = result.filePaths[0];
+  return { path: filePath, content: await fs.promises.readFile(filePath, 'utf8') };
+});
+
+// Writes the content to a path chosen by the user. Resolves to the path or null when cancelled.
+ipcMain.handle('save-file-dialog', async (event, defaultPath, content) => {
+  const result = await dialog.showSaveDialog(mainWindow, {
+    title: '另存为',
+    defaultPath,
+    filters: DIAGRAM_FILE_FILTERS
+  });
+  if (result.canceled || !result.filePath) return null;
+
+  fileWatcher.noteContent(result.filePath, content);
+  await fs.promises.writeFile(result.filePath, content, 'utf8');
+  return result.filePath;
+});
+
+// Closing a single dirty document. Resolves to 'save' | 'discard' | 'cancel'.
+ipcMain.handle('confirm-close-document', (event, name) => {
+  const choice = dialog.showMessageBoxSync(mainWindow, {
+    type: 'warning',
+    buttons: ['保存', '不保存', '取消'],
+    defaultId: 0,
+    cancelId: 2,
+    title: '未保存的修改',
+    message: `"${name}" 有未保存的修改，关闭前是否保存？`
+  });
+  return ['save', 'discard', 'cancel'][choice];
+});
+
+ipcMain.on('set-dirty-documents', (event, names) => {
+  dirtyDocuments = Array.isArray(names) ? names : [];
+});
+
+ipcMain.on('close-window', () => {
+  isCloseConfirmed = true;
+  if (mainWindow && !mainWindow.isDestroyed()) mainWindow.close();
+});
+
+// ==========================================
+// External Changes to Open Files
+// ==========================================
+
+const fileWatcher = new FileWatcher();
+
+fileWatcher.on('change', (filePath, content) => {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    mainWindow.webContents.send('file-changed', { path: filePath, content });
+  }
+});
+
+// The renderer sends the paths of all open documents whenever they change
+ipcMain.on('set-watched-files', (event, filePaths) => {
+  fileWatcher.setFiles(Array.isArray(filePaths) ? filePaths : []);
+});
+
+// ==========================================
+// Recent Files
+// ==========================================
+
+let recentFiles = null;
+const getRecentFiles = () => {
+  if (!recentFiles) {
+    recentFiles = new RecentFiles(path.join(app.getPath('userData'), 'recent-files.json'));
+  }
+  return recentFiles;
+};
+
+ipcMain.handle('get-recent-files', () => getRecentFiles().list());
+
+ipcMain.handle('add-recent-file', (event, filePath) => getRecentFiles().add(filePath));
+
+ipcMain.handle('remove-recent-file', (event, filePath) => getRecentFiles().remove(filePath));
+
+ipcMain.handle('clear-recent-files', () => getRecentFiles().clear());
+
+// ==========================================
+// Session
+// ==========================================
+
+let sessionStore = null;
+const getSessionStore = () => {
+  if (!sessionStore) {
+    sessionStore = new SessionStore(app.getPath('userData'));
+  }
+  return sessionStore;
+};
+
+// Synchronous so the renderer can restore its first state before rendering anything
+ipcMain.on('load-session', (event) => {
+  event.returnValue = getSessionStore().load();
+});
+
+// Synchronous so the final save finishes before the window unloads
+ipcMain.on('save-session', (event, session) => {
+  getSessionStore().save(session);
+  event.returnValue = true;
+});
+
+ipcMain.on('save-session-snapshot', (event, session) => {
+  getSessionStore().snapshot(session);
+});
@@ -0,0 +1,208 @@
+const path = require('path');
+const { spawn } = require('child_process');
+const { EventEmitter } = require('events');
+
+const RENDER_TIMEOUT_MS = 10000;
+
+// Written by PlantUML after every diagram (-pipedelimitor), so binary formats can be framed too
+const PIPE_DELIMITER = '~~~PLANTUML-EDITOR-END-OF-DIAGRAM~~~';
+const PIPE_DELIMITER_BYTES = Buffer.from(PIPE_DELIMITER, 'utf8');
+
+// ==========================================
+// Single PlantUML Pipe Process
+// ==========================================
+// Owns one `java -pipe` process for a single output format and page, and renders one diagram at a time.
+// `dir` is the directory relative `!include`s resolve against; `includePaths` are searched after it.
+// Emits 'idle' when it can take the next request and 'health' when its state changes.
+class PlantUMLWorker extends EventEmitter {
+  constructor(id, jarPath, format = 'svg', page = 0, dir = null, includePaths = []) {
+    super();
+    this.id = id;
+    this.jarPath = jarPath;
+    this.format = format;
+    this.page = page; // 0-based `newpage` page to output (-pipeimageindex)
+    this.dir = dir;
+    this.includePaths = includePaths;
+    this.process = null;
+    this.buffer = Buffer.alloc(0);
+    this.current = null; // { resolve, reject, timeoutId, outputs, expected }
+    this.state = 'stopped'; // stopped | idle | busy | crashed
+    this.rendered = 0;
+    this.timeouts = 0;
+    this.restarts = 0;
+    this.lastError = null;
+    this.lastUsedAt = 0;
+  }
+
+  get isIdle() {
+    return !this.current && this.state !== 'busy';
+  }
+
+  start() {
+    this.stop(); // Ensure clean slate
+
+    // Start Java in pipe mode (-pipe) which reads from STDIN and writes to STDOUT
+    // -Djava.awt.headless=true is crucial for server environments
+    const child = spawn('java', [
+      '-Djava.awt.headless=true',
+      '-Dfile.encoding=UTF-8',
+      ...(this.includePaths.length > 0 ? [`-Dplantuml.include.path=${this.includePaths.join(path.delimiter)}`] : []),
+      '-jar', this.jarPath,
+      '-pipe',
+      '-pipedelimitor', PIPE_DELIMITER,
+      `-t${this.format}`,
+      ...(this.page > 0 ? ['-pipeimageindex', String(this.page)] : []),
+      // Behave as if the piped source were a file in the document's directory
+      ...(this.dir ? ['-filedir', this.dir] : []),
+      '-charset', 'UTF-8'
+    ], this.dir ? { cwd: this.dir } : undefined);
+    this.process = child;
+    this.setState('idle');
+
+    child.stdout.on('data', (chunk) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.processBuffer();
+    });
+
+    child.stderr.on('data', (chunk) => {
+      // PlantUML outputs some info to stderr, log it but don't crash
+      console.log(`PlantUML Stderr [worker ${this.id}]:`, chunk.toString());
+    });
+
+    child.on('close', (code) => {
+      // Ignore processes we replaced or stopped on purpose
+      if (this.process !== child) return;
+      console.log(`PlantUML worker ${this.id} exited with code ${code}`);
+      this.process = null;
+      this.buffer = Buffer.alloc(0);
+      this.failCurrent(new Error('PlantUML process closed unexpectedly'));
+      this.setState('crashed');
+      this.emit('idle');
+    });
+
+    child.on('error', (err) => {
+      console.error(`Failed to start PlantUML worker ${this.id}:`, err);
+      this.lastError = err.message;
+      if (this.process === child) {
+        this.process = null;
+        this.failCurrent(err);
+        this.setState('crashed');
+        this.emit('idle');
+      }
+    });
+  }
+
+  stop() {
+    if (this.process) {
+      const child = this.process;
+      this.process = null;
+      child.kill();
+    }
+    this.buffer = Buffer.alloc(0);
+    this.failCurrent(new Error('PlantUML worker stopped'));
+    this.setState('stopped');
+  }
+
+  restart() {
+    this.restarts++;
+    this.start();
+  }
+
+  // Handle the output stream from PlantUML
+  processBuffer() {
+    // The delimiter line marks the end of a complete diagram; one chunk may hold several
+    let splitIndex;
+    while ((splitIndex = this.buffer.indexOf(PIPE_DELIMITER_BYTES)) !== -1) {
+      // Extract the complete output and remove it (plus the delimiter line break) from the buffer
+      const output = Buffer.from(this.buffer.subarray(0, splitIndex));
+      let rest = splitIndex + PIPE_DELIMITER_BYTES.length;
+      if (this.buffer[rest] === 0x0d) rest++;
+      if (this.buffer[rest] === 0x0a) rest++;
+      this.buffer = this.buffer.subarray(rest);
+
+      const request = this.current;
+      if (!request) continue;
+
+      // Every @start block of the input produces its own output; wait for all of them
+      request.outputs.push(output);
+      if (request.outputs.length < request.expected) continue;
+
+      this.current = null;
+      clearTimeout(request.timeoutId);
+      this.rendered++;
+      this.setState('idle');
+      request.resolve(request.outputs);
+      this.emit('idle');
+    }
+  }
+
+  failCurrent(err) {
+    const request = this.current;
+    if (request) {
+      this.current = null;
+      clearTimeout(request.timeoutId);
+      request.reject(err);
+    }
+  }
+
+  // Renders the input to one Buffer per diagram block. Only call while the worker is idle.
+  // `expected` is the number of blocks in the input, so the stream stays in sync with requests.
+  render(pumlCode, expected = 1) {
+    if (!this.process) {
+      try {
+        this.start();
+      } catch (e) {
+        return Promise.reject(e);
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        // If timeout, assume process state is corrupted/desynced. Restart only this worker.
+        console.warn(`PlantUML worker ${this.id} timed out, restarting process...`);
+        this.timeouts++;
+        this.lastError = 'Rendering timed out';
+        this.failCurrent(new Error('Rendering timed out'));
+        this.restart();
+        this.emit('idle');
+      }, RENDER_TIMEOUT_MS);
+
+      this.current = { resolve, reject, timeoutId, outputs: [], expected: Math.max(1, expected) };
+      this.lastUsedAt = Date.now();
+      this.setState('busy');
+
+      // Write code to STDIN
+      // Ensure it ends with a newline to trigger processing
+      try {
+        this.process.stdin.write(pumlCode + '\n');
+      } catch (err) {
+        this.failCurrent(err);
+        this.setState('idle');
+        this.emit('idle');
+      }
+    });
+  }
+
+  setState(state) {
+    if (this.state !== state) {
+      this.state = state;
+      this.emit('health');
+    }
+  }
+
+  getHealth() {
+    return {
+      id: this.id,
+      format: this.format,
+      page: this.page,
+      dir: this.dir,
+      state: this.state,
+      rendered: this.rendered,
+      timeouts: this.timeouts,
+      restarts: this.restarts,
+      lastError: this.lastError
+    };
+  }
+}
+
+module.exports = { PlantUMLWorker };
@@ -0,0 +1,56 @@
+const fs = require('fs');
+
+const MAX_RECENT_FILES = 10;
+
+// ==========================================
+// Recently Opened Files (persisted as JSON in userData)
+// ==========================================
+class RecentFiles {
+  constructor(storePath) {
+    this.storePath = storePath;
+    this.files = this.load();
+  }
+
+  load() {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.storePath, 'utf8'));
+      return Array.isArray(data) ? data.filter(f => typeof f === 'string').slice(0, MAX_RECENT_FILES) : [];
+    } catch (e) {
+      // Missing or corrupt file: start with an empty list
+      return [];
+    }
+  }
+
+  save() {
+    try {
+      fs.writeFileSync(this.storePath, JSON.stringify(this.files, null, 2), 'utf8');
+    } catch (e) {
+      console.error('Failed to save recent files:', e);
+    }
+  }
+
+  // Moves the path to the front of the list
+  add(filePath) {
+    this.files = [filePath, ...this.files.filter(f => f !== filePath)].slice(0, MAX_RECENT_FILES);
+    this.save();
+    return this.list();
+  }
+
+  remove(filePath) {
+    this.files = this.files.filter(f => f !== filePath);
+    this.save();
+    return this.list();
+  }
+
+  clear() {
+    this.files = [];
+    this.save();
+    return this.list();
+  }
+
+  list() {
+    return [...this.files];
+  }
+}
+
+module.exports = { RecentFiles };
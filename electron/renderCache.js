@@ -0,0 +1,90 @@
+const crypto = require('crypto');
+
+// ==========================================
+// Content-Addressed Render Cache (LRU, bounded by bytes)
+// ==========================================
+class RenderCache {
+  constructor(maxBytes) {
+    this.maxBytes = maxBytes;
+    // Map preserves insertion order: the first key is the least recently used
+    this.entries = new Map();
+    this.totalBytes = 0;
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  // Key = hash of everything that affects the output
+  // `context` covers what relative file references resolve against (document directory, include paths)
+  static key(source, format = 'svg', page = 0, context = '') {
+    return crypto
+      .createHash('sha256')
+      .update(format).update('\0')
+      .update(String(page)).update('\0')
+      .update(context).update('\0')
+      .update(source)
+      .digest('hex');
+  }
+
+  get(key) {
+    const entry = this.entries.get(key);
+    if (entry === undefined) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    // Move to most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key, value) {
+    const size = Buffer.isBuffer(value) ? value.length : Buffer.byteLength(value, 'utf8');
+    // Never let a single oversized result flush the whole cache
+    if (size > this.maxBytes) return;
+
+    this.delete(key);
+    this.entries.set(key, { value, size });
+    this.totalBytes += size;
+    this.evict();
+  }
+
+  delete(key) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.totalBytes -= entry.size;
+      this.entries.delete(key);
+    }
+  }
+
+  evict() {
+    while (this.totalBytes > this.maxBytes && this.entries.size > 0) {
+      const oldestKey = this.entries.keys().next().value;
+      this.delete(oldestKey);
+    }
+  }
+
+  setMaxBytes(maxBytes) {
+    this.maxBytes = maxBytes;
+    this.evict();
+  }
+
+  clear() {
+    this.entries.clear();
+    this.totalBytes = 0;
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  getStats() {
+    return {
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses
+    };
+  }
+}
+
+module.exports = { RenderCache };
@@ -0,0 +1,56 @@
+const fs = require('fs');
+const path = require('path');
+
+// ==========================================
+// Session Persistence (userData)
+// session.json is written on a clean exit; session-recovery.json holds the periodic
+// snapshots and is removed on a clean exit, so finding it at launch means the app crashed.
+// ==========================================
+class SessionStore {
+  constructor(dir) {
+    this.sessionPath = path.join(dir, 'session.json');
+    this.recoveryPath = path.join(dir, 'session-recovery.json');
+  }
+
+  // Resolves to { session, recovered } with session null when nothing was saved
+  load() {
+    const recovery = this.read(this.recoveryPath);
+    if (recovery) return { session: recovery, recovered: true };
+    return { session: this.read(this.sessionPath), recovered: false };
+  }
+
+  read(filePath) {
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e) {
+      // Missing or corrupt (e.g. crashed mid-write before the rename)
+      return null;
+    }
+  }
+
+  // Write to a temporary file first so a crash never leaves a half-written session
+  write(filePath, session) {
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(session), 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  save(session) {
+    try {
+      this.write(this.sessionPath, session);
+      fs.rmSync(this.recoveryPath, { force: true });
+    } catch (e) {
+      console.error('Failed to save session:', e);
+    }
+  }
+
+  snapshot(session) {
+    try {
+      this.write(this.recoveryPath, session);
+    } catch (e) {
+      console.error('Failed to write recovery snapshot:', e);
+    }
+  }
+}
+
+module.exports = { SessionStore };
@@ -0,0 +1,55 @@
+const fs = require('fs');
+const path = require('path');
+
+// Files shown in the workspace tree
+const DIAGRAM_EXTENSIONS = new Set(['.puml', '.plantuml', '.pu', '.iuml', '.wsd']);
+// Never descend into these: they are huge and never hold diagrams we edit
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', '.svn', '.hg', 'dist', 'build', 'out']);
+// Upper bound on scanned directory entries, so opening a home directory stays responsive
+const MAX_SCANNED_ENTRIES = 20000;
+
+const isDiagramFile = (filePath) => DIAGRAM_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+
+// ==========================================
+// Workspace Folder Scanning
+// ==========================================
+// Returns the tree below `root` as [{ name, path, type: 'file' | 'directory', children? }],
+// directories first, keeping only directories that contain diagram files.
+const readWorkspaceTree = async (root) => {
+  let scanned = 0;
+
+  const readDirectory = async (dir) => {
+    let dirents;
+    try {
+      dirents = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (err) {
+      console.warn(`Skipping unreadable directory ${dir}:`, err.message);
+      return [];
+    }
+
+    const directories = [];
+    const files = [];
+    for (const dirent of dirents) {
+      if (++scanned > MAX_SCANNED_ENTRIES) break;
+      if (dirent.name.startsWith('.')) continue;
+
+      const entryPath = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) {
+        if (IGNORED_DIRECTORIES.has(dirent.name)) continue;
+        const children = await readDirectory(entryPath);
+        if (children.length > 0) {
+          directories.push({ name: dirent.name, path: entryPath, type: 'directory', children });
+        }
+      } else if (dirent.isFile() && isDiagramFile(dirent.name)) {
+        files.push({ name: dirent.name, path: entryPath, type: 'file' });
+      }
+    }
+
+    const byName = (a, b) => a.name.localeCompare(b.name);
+    return [...directories.sort(byName), ...files.sort(byName)];
+  };
+
+  return readDirectory(root);
+};
+
+module.exports = { readWorkspaceTree };
@@ -0,0 +1,206 @@
+import { INITIAL_CODE } from '../utils/plantuml';
+import { EditHistory, TextSelection, createHistory, recordEdit, limitHistory, undo, redo } from '../utils/history';
+
+// Typing within this window is merged into one undo step
+const COALESCE_WINDOW_MS = 1000;
+export const DEFAULT_HISTORY_LIMIT = 500;
+
+/**
+ * A named checkpoint of a document's content (e.g. "before review").
+ */
+export interface DocumentSnapshot {
+  id: string;
+  name: string;
+  content: string;
+  createdAt: number;
+}
+
+/**
+ * One open document (tab): its own undo history and preview position.
+ */
+export interface EditorDocument {
+  id: string; // Also identifies the document to the render service
+  path: string | null; // null until saved to disk
+  name: string;
+  content: string;
+  history: EditHistory;
+  lastEditTime: number;
+  savedContent: string; // Content last read from or written to disk
+  activeBlockIndex: number; // Diagram shown in Preview
+  activePage: number; // 0-based `newpage` page of that diagram
+  restoredSelection: TextSelection | null; // Set by undo/redo for the editor to apply
+  snapshots: DocumentSnapshot[]; // Oldest first
+}
+
+export interface DocumentsState {
+  documents: EditorDocument[];
+  activeId: string;
+  historyLimit: number; // Undo steps kept per document
+}
+
+export type DocumentsAction =
+  | { type: 'open'; document: EditorDocument }
+  | { type: 'close'; id: string }
+  | { type: 'activate'; id: string }
+  | { type: 'edit'; id: string; content: string; selection?: { before: TextSelection; after: TextSelection }; forceNew: boolean; now: number }
+  | { type: 'undo'; id: string }
+  | { type: 'redo'; id: string }
+  | { type: 'saved'; id: string; content: string; path?: string }
+  | { type: 'reload'; id: string; content: string; diskContent: string; now: number }
+  | { type: 'set-view'; id: string; activeBlockIndex: number; activePage: number }
+  | { type: 'set-history-limit'; limit: number }
+  | { type: 'add-snapshot'; id: string; name: string; now: number }
+  | { type: 'remove-snapshot'; id: string; snapshotId: string };
+
+const createId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createDocument = (content: string, path: string | null = null, name: string = '未命名'): EditorDocument => ({
+  id: createId('doc'),
+  path,
+  name,
+  content,
+  history: createHistory(),
+  lastEditTime: 0,
+  savedContent: content,
+  activeBlockIndex: 0,
+  activePage: 0,
+  restoredSelection: null,
+  snapshots: [],
+});
+
+export const getFileName = (path: string) => path.split(/[\\/]/).pop() || path;
+
+export const getDirectoryName = (path: string) => {
+  const index = Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'));
+  if (index === -1) return '';
+  const dir = path.slice(0, index);
+  // Keep the separator of a root directory: "/" or "C:\"
+  return dir === '' || /^[A-Za-z]:$/.test(dir) ? path.slice(0, index + 1) : dir;
+};
+
+// Resolves a path relative to a directory, using the directory's separator
+export const resolvePath = (dir: string, relativePath: string) => {
+  if (/^([\\/]|[A-Za-z]:[\\/])/.test(relativePath)) return relativePath;
+  const separator = dir.includes('\\') ? '\\' : '/';
+  return `${dir.replace(/[\\/]+$/, '')}${separator}${relativePath.replace(/[\\/]/g, separator)}`;
+};
+
+export const getContent = (doc: EditorDocument) => doc.content;
+
+export const isDirty = (doc: EditorDocument) => getContent(doc) !== doc.savedContent;
+
+export const createInitialDocumentsState = (): DocumentsState => {
+  const doc = createDocument(INITIAL_CODE);
+  return { documents: [doc], activeId: doc.id, historyLimit: DEFAULT_HISTORY_LIMIT };
+};
+
+// Edit with history management (coalescing rapid edits)
+const applyEdit = (
+  doc: EditorDocument,
+  content: string,
+  selection: { before: TextSelection; after: TextSelection } | undefined,
+  forceNew: boolean,
+  now: number,
+  historyLimit: number
+): EditorDocument => {
+  const coalesce = !forceNew && now - doc.lastEditTime < COALESCE_WINDOW_MS;
+  const history = limitHistory(recordEdit(doc.history, doc.content, content, selection, coalesce), historyLimit);
+  return { ...doc, content, history, lastEditTime: now, restoredSelection: null };
+};
+
+const updateDocument = (state: DocumentsState, id: string, update: (doc: EditorDocument) => EditorDocument): DocumentsState => ({
+  ...state,
+  documents: state.documents.map(doc => (doc.id === id ? update(doc) : doc)),
+});
+
+export const documentsReducer = (state: DocumentsState, action: DocumentsAction): DocumentsState => {
+  switch (action.type) {
+    case 'open':
+      return { ...state, documents: [...state.documents, action.document], activeId: action.document.id };
+
+    case 'close': {
+      const index = state.documents.findIndex(doc => doc.id === action.id);
+      if (index === -1) return state;
+      const documents = state.documents.filter(doc => doc.id !== action.id);
+      // Always keep one document open
+      if (documents.length === 0) {
+        const doc = createDocument('');
+        return { ...state, documents: [doc], activeId: doc.id };
+      }
+      const activeId = state.activeId === action.id
+        ? documents[Math.min(index, documents.length - 1)].id
+        : state.activeId;
+      return { ...state, documents, activeId };
+    }
+
+    case 'activate':
+      return { ...state, activeId: action.id };
+
+    case 'edit':
+      return updateDocument(state, action.id, doc =>
+        applyEdit(doc, action.content, action.selection, action.forceNew, action.now, state.historyLimit)
+      );
+
+    case 'undo':
+    case 'redo':
+      return updateDocument(state, action.id, doc => {
+        const step = action.type === 'undo' ? undo(doc.history, doc.content) : redo(doc.history, doc.content);
+        if (!step) return doc;
+        return {
+          ...doc,
+          content: step.text,
+          history: step.history,
+          lastEditTime: 0, // Reset coalesce timer
+          restoredSelection: step.selection,
+        };
+      });
+
+    case 'saved':
+      // Save As also moves the document to its new path
+      return updateDocument(state, action.id, doc => ({
+        ...doc,
+        savedContent: action.content,
+        ...(action.path ? { path: action.path, name: getFileName(action.path) } : {}),
+      }));
+
+    case 'reload':
+      // The file changed on disk: the new buffer is its own undo step, and disk is the new saved state
+      return updateDocument(state, action.id, doc => ({
+        ...(action.content === getContent(doc) ? doc : applyEdit(doc, action.content, undefined, true, action.now, state.historyLimit)),
+        savedContent: action.diskContent,
+        lastEditTime: 0,
+      }));
+
+    case 'set-view':
+      return updateDocument(state, action.id, doc => ({
+        ...doc,
+        activeBlockIndex: action.activeBlockIndex,
+        activePage: action.activePage,
+      }));
+
+    case 'set-history-limit':
+      return {
+        ...state,
+        historyLimit: action.limit,
+        documents: state.documents.map(doc => ({ ...doc, history: limitHistory(doc.history, action.limit) })),
+      };
+
+    case 'add-snapshot':
+      return updateDocument(state, action.id, doc => ({
+        ...doc,
+        snapshots: [
+          ...doc.snapshots,
+          { id: createId('snap'), name: action.name, content: doc.content, createdAt: action.now },
+        ],
+      }));
+
+    case 'remove-snapshot':
+      return updateDocument(state, action.id, doc => ({
+        ...doc,
+        snapshots: doc.snapshots.filter(snapshot => snapshot.id !== action.snapshotId),
+      }));
+
+    default:
+      return state;
+  }
+};
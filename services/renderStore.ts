@@ -0,0 +1,158 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { Diagnostic } from '../types';
+import { parseSvgDiagnostics } from '../utils/diagnostics';
+
+// 'superseded': the local service dropped this request because a newer version of the document arrived
+export type RenderStatus = 'idle' | 'loading' | 'success' | 'error' | 'superseded';
+
+/**
+ * Everything known about one rendered source version.
+ * Preview, validation, download and clipboard export all read from this
+ * instead of fetching the diagram themselves.
+ */
+export interface RenderResult {
+  url: string;
+  status: RenderStatus;
+  svgText: string | null;
+  renderTime?: number; // Milliseconds from request to response
+  diagnostics: Diagnostic[];
+  error?: string;
+  skipped?: number; // Older queued versions the service skipped in favour of this one
+}
+
+export interface RenderRequest {
+  url: string;
+  source: string;
+}
+
+const IDLE_RESULT: RenderResult = { url: '', status: 'idle', svgText: null, diagnostics: [] };
+// Returned between a URL change and the store picking up the request
+const PENDING_RESULT: RenderResult = { url: '', status: 'loading', svgText: null, diagnostics: [] };
+
+// Recently rendered versions are kept so undo/redo can show them without a request
+const MAX_ENTRIES = 20;
+
+class RenderStore {
+  private entries = new Map<string, RenderResult>();
+  private listeners = new Set<() => void>();
+  // URLs currently shown somewhere; never evicted, however many diagrams a document holds
+  private retained = new Map<string, number>();
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  retain(urls: string[]) {
+    urls.forEach(url => this.retained.set(url, (this.retained.get(url) || 0) + 1));
+    return () => {
+      urls.forEach(url => {
+        const count = (this.retained.get(url) || 0) - 1;
+        if (count > 0) this.retained.set(url, count);
+        else this.retained.delete(url);
+      });
+    };
+  }
+
+  get(url: string): RenderResult | undefined {
+    return this.entries.get(url);
+  }
+
+  /**
+   * Renders the URL once; concurrent and repeated calls share the same result.
+   * @param source The source behind the URL, used to attribute diagnostics to lines
+   */
+  render(url: string, source: string) {
+    const existing = this.entries.get(url);
+    if (existing && existing.status !== 'error' && existing.status !== 'superseded') {
+      // Refresh recency
+      this.entries.delete(url);
+      this.entries.set(url, existing);
+      return;
+    }
+
+    this.set(url, { url, status: 'loading', svgText: null, diagnostics: [] });
+    this.fetchRender(url, source).then(result => this.set(url, result));
+  }
+
+  private async fetchRender(url: string, source: string): Promise<RenderResult> {
+    const startTime = performance.now();
+    try {
+      const response = await fetch(url);
+      if (response.headers.get('X-Render-Superseded')) {
+        return { url, status: 'superseded', svgText: null, diagnostics: [] };
+      }
+
+      const svgText = await response.text();
+      const renderTime = Math.round(performance.now() - startTime);
+      const skipped = parseInt(response.headers.get('X-Render-Skipped') || '0', 10) || 0;
+
+      // PlantUML servers answer syntax errors with an SVG, sometimes with a 400 status
+      if (!svgText.includes('<svg')) {
+        return { url, status: 'error', svgText: null, renderTime, diagnostics: [], error: `服务返回错误 (${response.status})` };
+      }
+      return { url, status: 'success', svgText, renderTime, skipped, diagnostics: parseSvgDiagnostics(svgText, source) };
+    } catch (e) {
+      console.error("Render failed", e);
+      return { url, status: 'error', svgText: null, diagnostics: [], error: '无法连接到渲染服务' };
+    }
+  }
+
+  private set(url: string, result: RenderResult) {
+    this.entries.delete(url);
+    this.entries.set(url, result);
+    // Evict least recently used entries that nobody is showing
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= MAX_ENTRIES) break;
+      if (!this.retained.has(key)) this.entries.delete(key);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const renderStore = new RenderStore();
+
+/**
+ * Subscribes to the render result of a URL, requesting it if needed.
+ */
+export const useRender = (url: string, source: string): RenderResult => {
+  useEffect(() => {
+    if (!url) return;
+    const release = renderStore.retain([url]);
+    renderStore.render(url, source);
+    return release;
+  }, [url, source]);
+
+  return useSyncExternalStore(
+    renderStore.subscribe,
+    () => (url ? renderStore.get(url) || PENDING_RESULT : IDLE_RESULT)
+  );
+};
+
+/**
+ * Subscribes to the render results of several URLs (e.g. every diagram of a document).
+ * The requests array should be memoized; the returned array keeps its identity until a result changes.
+ */
+export const useRenders = (requests: RenderRequest[]): RenderResult[] => {
+  const snapshotRef = useRef<RenderResult[]>([]);
+
+  useEffect(() => {
+    const release = renderStore.retain(requests.map(r => r.url).filter(Boolean));
+    requests.forEach(r => {
+      if (r.url) renderStore.render(r.url, r.source);
+    });
+    return release;
+  }, [requests]);
+
+  return useSyncExternalStore(renderStore.subscribe, () => {
+    const next = requests.map(r => (r.url ? renderStore.get(r.url) || PENDING_RESULT : IDLE_RESULT));
+    const previous = snapshotRef.current;
+    if (previous.length === next.length && previous.every((result, i) => result === next[i])) {
+      return previous;
+    }
+    snapshotRef.current = next;
+    return next;
+  });
+};
@@ -0,0 +1,224 @@
+import { EditorViewState, PreviewViewState } from '../types';
+import { DocumentSnapshot, DocumentsState, EditorDocument, DEFAULT_HISTORY_LIMIT, isDirty } from './documents';
+import { EditHistory, HistoryEntry, TextSelection, createHistory, limitHistory, recordEdit } from '../utils/history';
+
+// Undo entries kept per document in the saved session
+const MAX_SESSION_HISTORY = 50;
+const SESSION_VERSION = 2;
+
+const electron = (window as any).require ? (window as any).require('electron') : null;
+const ipcRenderer = electron ? electron.ipcRenderer : null;
+
+// Browser build: the session lives in localStorage instead of userData
+const STORAGE_KEY = 'plantuml-editor.session';
+const RECOVERY_STORAGE_KEY = 'plantuml-editor.session-recovery';
+
+export interface SessionDocument {
+  id: string;
+  path: string | null;
+  name: string;
+  content: string;
+  history: EditHistory;
+  savedContent: string;
+  snapshots: DocumentSnapshot[];
+  activeBlockIndex: number;
+  activePage: number;
+  editor?: EditorViewState;
+  preview?: PreviewViewState;
+}
+
+/**
+ * Everything restored on the next launch.
+ */
+export interface Session {
+  version: number;
+  documents: SessionDocument[];
+  activeId: string;
+  leftWidth: number; // Editor pane width, percent
+  workspaceRoot: string | null;
+  serverPort: number | null; // Last port of the local service
+}
+
+export interface LoadedSession {
+  session: Session;
+  recovered: boolean; // From a crash-recovery snapshot rather than a clean exit
+}
+
+// Latest cursor/scroll and zoom/pan per document id
+export interface SessionViews {
+  editor: Record<string, EditorViewState>;
+  preview: Record<string, PreviewViewState>;
+}
+
+export interface SessionLayout {
+  leftWidth: number;
+  workspaceRoot: string | null;
+  serverPort: number | null;
+}
+
+// "Don't save" on exit: saved files reopen at their disk content (the edits stay undoable),
+// unsaved new documents are dropped
+const discardChanges = (doc: EditorDocument): EditorDocument | null => {
+  if (!isDirty(doc)) return doc;
+  if (!doc.path) return null;
+  const history = recordEdit(doc.history, doc.content, doc.savedContent, undefined, false);
+  return { ...doc, content: doc.savedContent, history };
+};
+
+export const createSession = (
+  state: DocumentsState,
+  views: SessionViews,
+  layout: SessionLayout,
+  discardUnsaved: boolean = false
+): Session => {
+  const documents = discardUnsaved
+    ? state.documents.map(discardChanges).filter((doc): doc is EditorDocument => doc !== null)
+    : state.documents;
+
+  return {
+    version: SESSION_VERSION,
+    documents: documents.map(doc => ({
+      id: doc.id,
+      path: doc.path,
+      name: doc.name,
+      content: doc.content,
+      history: limitHistory(doc.history, MAX_SESSION_HISTORY),
+      savedContent: doc.savedContent,
+      snapshots: doc.snapshots,
+      activeBlockIndex: doc.activeBlockIndex,
+      activePage: doc.activePage,
+      editor: views.editor[doc.id],
+      preview: views.preview[doc.id],
+    })),
+    activeId: state.activeId,
+    ...layout,
+  };
+};
+
+const isValidDocument = (doc: any): doc is SessionDocument =>
+  !!doc &&
+  typeof doc.id === 'string' &&
+  typeof doc.name === 'string' &&
+  typeof doc.content === 'string' &&
+  typeof doc.savedContent === 'string';
+
+const isValidSelection = (selection: any): selection is TextSelection =>
+  !!selection && typeof selection.start === 'number' && typeof selection.end === 'number';
+
+const isValidEntry = (entry: any): entry is HistoryEntry =>
+  !!entry &&
+  !!entry.patch &&
+  typeof entry.patch.start === 'number' &&
+  typeof entry.patch.removed === 'string' &&
+  typeof entry.patch.inserted === 'string' &&
+  isValidSelection(entry.selectionBefore) &&
+  isValidSelection(entry.selectionAfter);
+
+const isValidSnapshot = (snapshot: any): snapshot is DocumentSnapshot =>
+  !!snapshot &&
+  typeof snapshot.id === 'string' &&
+  typeof snapshot.name === 'string' &&
+  typeof snapshot.content === 'string' &&
+  typeof snapshot.createdAt === 'number';
+
+// A damaged history only costs the undo steps, not the document
+const restoreHistory = (history: any): EditHistory =>
+  history && Array.isArray(history.entries) && history.entries.every(isValidEntry) &&
+  Number.isInteger(history.index) && history.index >= 0 && history.index <= history.entries.length
+    ? { entries: history.entries, index: history.index }
+    : createHistory();
+
+/**
+ * Rebuilds the open documents of a session. Returns null when nothing usable was saved.
+ */
+export const restoreDocumentsState = (session: Session): DocumentsState | null => {
+  const documents: EditorDocument[] = session.documents.filter(isValidDocument).map(doc => ({
+    id: doc.id,
+    path: typeof doc.path === 'string' ? doc.path : null,
+    name: doc.name,
+    content: doc.content,
+    history: restoreHistory(doc.history),
+    lastEditTime: 0,
+    savedContent: doc.savedContent,
+    activeBlockIndex: Number(doc.activeBlockIndex) || 0,
+    activePage: Number(doc.activePage) || 0,
+    restoredSelection: null,
+    snapshots: Array.isArray(doc.snapshots) ? doc.snapshots.filter(isValidSnapshot) : [],
+  }));
+  if (documents.length === 0) return null;
+
+  const activeId = documents.some(doc => doc.id === session.activeId) ? session.activeId : documents[0].id;
+  return { documents, activeId, historyLimit: DEFAULT_HISTORY_LIMIT };
+};
+
+export const restoreViews = (session: Session): SessionViews => {
+  const views: SessionViews = { editor: {}, preview: {} };
+  session.documents.filter(isValidDocument).forEach(doc => {
+    if (doc.editor) views.editor[doc.id] = doc.editor;
+    if (doc.preview) views.preview[doc.id] = doc.preview;
+  });
+  return views;
+};
+
+const isValidSession = (session: any): session is Session =>
+  !!session && session.version === SESSION_VERSION && Array.isArray(session.documents);
+
+const readStorage = (key: string) => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Loads the last session: the crash-recovery snapshot if the app did not exit cleanly.
+ * Desktop sessions are stored by the main process in userData.
+ */
+export const loadSession = (): LoadedSession | null => {
+  let loaded: { session: unknown; recovered: boolean };
+  try {
+    if (ipcRenderer) {
+      loaded = ipcRenderer.sendSync('load-session');
+    } else {
+      const recovery = readStorage(RECOVERY_STORAGE_KEY);
+      loaded = recovery ? { session: recovery, recovered: true } : { session: readStorage(STORAGE_KEY), recovered: false };
+    }
+  } catch (e) {
+    console.error("Failed to load session", e);
+    return null;
+  }
+  return loaded && isValidSession(loaded.session) ? { session: loaded.session, recovered: loaded.recovered } : null;
+};
+
+/**
+ * Saves the session on exit. Synchronous, so it completes while the window unloads.
+ */
+export const saveSession = (session: Session) => {
+  try {
+    if (ipcRenderer) {
+      ipcRenderer.sendSync('save-session', session);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+      localStorage.removeItem(RECOVERY_STORAGE_KEY);
+    }
+  } catch (e) {
+    console.error("Failed to save session", e);
+  }
+};
+
+/**
+ * Writes a crash-recovery snapshot, restored instead of the last clean session if the app dies.
+ */
+export const saveRecoverySnapshot = (session: Session) => {
+  try {
+    if (ipcRenderer) {
+      ipcRenderer.send('save-session-snapshot', session);
+    } else {
+      localStorage.setItem(RECOVERY_STORAGE_KEY, JSON.stringify(session));
+    }
+  } catch (e) {
+    console.error("Failed to write recovery snapshot", e);
+  }
+};
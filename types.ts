@@ -18,3 +18,91 @@ export interface GeneratedImage {
   url: string;
   error?: string;
 }
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem reported by PlantUML for the current source.
+ */
+export interface Diagnostic {
+  line?: number; // 1-based, undefined if PlantUML did not report a location
+  column?: number; // 1-based
+  message: string;
+  hints: string[]; // "Did you mean ..." suggestions
+  severity: DiagnosticSeverity;
+  // Set when the problem is inside an !include'd file; `line` then points at the including line
+  include?: { file: string; line: number };
+}
+
+/**
+ * Result of a check-only (no rendering) syntax validation.
+ */
+export interface SyntaxCheckResult {
+  diagramType: string | null; // e.g. "SEQUENCE", "CLASS"
+  description?: string;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Statistics of the local service's render cache.
+ */
+export interface RenderCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+}
+
+export interface RenderWorkerHealth {
+  id: number;
+  format: string; // PlantUML output type the process renders, e.g. 'svg' or 'png'
+  page: number; // 0-based `newpage` page the process outputs
+  dir: string | null; // Directory relative !include resolves against
+  state: 'stopped' | 'idle' | 'busy' | 'crashed';
+  rendered: number;
+  timeouts: number;
+  restarts: number;
+  lastError: string | null;
+}
+
+/**
+ * Aggregate health of the local service's pool of PlantUML processes.
+ */
+export interface RenderHealth {
+  status: 'ok' | 'degraded' | 'down' | 'stopped';
+  poolSize: number;
+  running: number;
+  busy: number;
+  queued: number;
+  workers: RenderWorkerHealth[];
+}
+
+/**
+ * Cursor and scroll position of the code editor, restored with the session.
+ */
+export interface EditorViewState {
+  selectionStart: number;
+  selectionEnd: number;
+  scrollTop: number;
+  scrollLeft: number;
+}
+
+/**
+ * Zoom and pan of the preview, restored with the session.
+ */
+export interface PreviewViewState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * A file or folder of the opened workspace folder, as listed by the main process.
+ */
+export interface WorkspaceEntry {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  children?: WorkspaceEntry[];
+}
@@ -0,0 +1,257 @@
+import { INITIAL_LEXER_STATE, Token, TokenizedDocument, tokenizeLine } from './lexer';
+import { detectDiagramType, splitDiagramBlocks } from './diagramBlocks';
+import { PUML_THEMES } from './themes';
+import {
+  COLOR_NAMES,
+  findSkinparam,
+  SKINPARAMS,
+  SKINPARAM_BLOCK_PROPERTIES,
+  SKINPARAM_ELEMENTS,
+  skinparamValues,
+} from './skinparams';
+import { collectArrowEndpoints, collectSymbols, SYMBOL_KIND_LABELS, symbolReference } from './symbols';
+
+export type CompletionKind = 'command' | 'keyword' | 'theme' | 'color' | 'skinparam' | 'value' | 'symbol';
+
+export interface CompletionItem {
+  label: string; // Text inserted in place of the typed word
+  kind: CompletionKind;
+  detail?: string;
+}
+
+export interface CompletionResult {
+  from: number; // Index in the code where the replaced word starts
+  items: CompletionItem[];
+}
+
+/**
+ * What completion needs to know about one diagram block: its detected type and the names
+ * its arrows can refer to. See `collectCompletionScopes`.
+ */
+export interface CompletionScope {
+  startLine: number; // 1-based, as in DiagramBlock
+  endLine: number;
+  diagram: string; // See `detectDiagramType`
+  symbols: CompletionItem[];
+}
+
+const words = (list: string) => list.split(/\s+/).filter(Boolean);
+
+// Offered in every kind of diagram
+const COMMON_KEYWORDS = words(`
+  @startuml @enduml @startmindmap @endmindmap @startwbs @endwbs @startgantt @endgantt
+  @startjson @endjson @startyaml @endyaml @startsalt @endsalt
+  title header footer caption legend endlegend skinparam scale newpage
+  !theme !include !define !procedure !function !endprocedure !endfunction
+`);
+
+const SEQUENCE_KEYWORDS = words(`
+  participant actor boundary control entity database collections queue box endbox
+  alt else opt loop par critical break group end ref activate deactivate destroy create return
+  autonumber autoactivate note rnote hnote left right over of as -> --> <- <-- ->> ->x
+`);
+
+const CLASS_KEYWORDS = words(`
+  class interface abstract enum annotation struct exception package namespace
+  extends implements note left right top bottom of as hide show <|-- *-- o-- ..|> -->
+`);
+
+const ACTIVITY_KEYWORDS = words(`
+  start stop end kill detach if then else elseif endif while endwhile repeat endrepeat
+  fork endfork split endsplit switch case endswitch partition group note left right
+`);
+
+const USECASE_KEYWORDS = words(`
+  actor usecase rectangle package note left right top bottom of as direction -> -->
+`);
+
+const COMPONENT_KEYWORDS = words(`
+  component interface node cloud database frame folder package rectangle artifact storage
+  card queue agent person system container port portin portout note of as -> --> ..>
+`);
+
+const STATE_KEYWORDS = words(`
+  state note left right of as end -> -->
+`);
+
+const KEYWORDS_BY_DIAGRAM: Record<string, string[]> = {
+  sequence: SEQUENCE_KEYWORDS,
+  class: CLASS_KEYWORDS,
+  activity: ACTIVITY_KEYWORDS,
+  usecase: USECASE_KEYWORDS,
+  component: COMPONENT_KEYWORDS,
+  state: STATE_KEYWORDS,
+  gantt: words('project starts lasts requires happens completed is colored in printscale saturday sunday closed'),
+  mindmap: words('left right side'),
+  wbs: [],
+  json: [],
+  yaml: [],
+  salt: [],
+};
+
+// A @startuml block that does not reveal its kind yet gets everything
+KEYWORDS_BY_DIAGRAM.uml = [
+  SEQUENCE_KEYWORDS, CLASS_KEYWORDS, ACTIVITY_KEYWORDS, USECASE_KEYWORDS, COMPONENT_KEYWORDS, STATE_KEYWORDS,
+].flat();
+
+const THEME_REGEX = /^\s*(?:!theme|skinparam\s+theme)\s+([\w-]*)$/i;
+const COLOR_REGEX = /#(\w*)$/;
+const SKINPARAM_NAME_REGEX = /^\s*skinparam\s+(\w*)$/i;
+const SKINPARAM_VALUE_REGEX = /^\s*skinparam\s+(\w+)\s+([\w#-]*)$/i;
+const SKINPARAM_BLOCK_START_REGEX = /^\s*skinparam\s+\w+\s*\{\s*$/i;
+const BLOCK_PROPERTY_REGEX = /^\s*(\w*)$/;
+const BLOCK_VALUE_REGEX = /^\s*(\w+)\s+([\w#-]*)$/;
+const ENDPOINT_WORD_REGEX = /[\p{L}_][\p{L}\p{N}_.]*$/u;
+const KEYWORD_WORD_REGEX = /[\w!@\->.]*$/;
+
+// How far up a `skinparam x {` line is looked for
+const SKINPARAM_BLOCK_SCAN_LINES = 200;
+
+const startsWithIgnoreCase = (text: string, prefix: string) => text.toLowerCase().startsWith(prefix.toLowerCase());
+
+// Items starting with `word`, without the one already typed in full
+const filterItems = (items: CompletionItem[], word: string) =>
+  items.filter(item => startsWithIgnoreCase(item.label, word) && item.label !== word);
+
+const result = (from: number, items: CompletionItem[]): CompletionResult | null =>
+  items.length > 0 ? { from, items } : null;
+
+const valueItems = (values: string[]): CompletionItem[] =>
+  values.map(value => ({ label: value, kind: value.startsWith('#') ? 'color' : 'value' }));
+
+// Whether the cursor line sits inside `skinparam element { ... }`
+const isInSkinparamBlock = (lines: string[], lineIndex: number) => {
+  for (let i = lineIndex - 1; i >= 0 && i >= lineIndex - SKINPARAM_BLOCK_SCAN_LINES; i--) {
+    if (SKINPARAM_BLOCK_START_REGEX.test(lines[i])) return true;
+    if (/[{}]|^\s*@(start|end)/i.test(lines[i])) return false;
+  }
+  return false;
+};
+
+// Declared elements by the name arrows use, then names only ever used in arrows
+const symbolItems = (blockTokens: Token[][]): CompletionItem[] => {
+  const items = new Map<string, CompletionItem>();
+  collectSymbols(blockTokens).forEach(symbol => {
+    // Notes are only referred to by alias (`N1 .. A`)
+    const reference = symbol.kind === 'note' ? symbol.alias : symbolReference(symbol);
+    if (reference && !items.has(reference)) {
+      items.set(reference, { label: reference, kind: 'symbol', detail: SYMBOL_KIND_LABELS[symbol.kind] });
+    }
+  });
+  collectArrowEndpoints(blockTokens).forEach(name => {
+    if (!items.has(name)) items.set(name, { label: name, kind: 'symbol' });
+  });
+  return Array.from(items.values());
+};
+
+/**
+ * Scopes of the diagram blocks of `code`, whose `tokens` come from `tokenize`. Scanning every
+ * block is too slow for each keystroke, so compute this when typing pauses and pass it to
+ * `getCompletions`.
+ */
+export const collectCompletionScopes = (code: string, tokens: Token[][]): CompletionScope[] =>
+  splitDiagramBlocks(code).map(block => ({
+    startLine: block.startLine,
+    endLine: block.endLine,
+    diagram: detectDiagramType(block),
+    symbols: symbolItems(tokens.slice(block.startLine - 1, block.endLine)),
+  }));
+
+const DEFAULT_SCOPE: CompletionScope = { startLine: 1, endLine: 1, diagram: 'uml', symbols: [] };
+
+/**
+ * What to offer at the cursor, from the context of the line being typed:
+ * themes after `!theme`, colors after `#`, skinparam names and then their values,
+ * declared participants/classes at arrow endpoints, and otherwise the keywords of the
+ * detected diagram type. `document` must be tokenized from `code`; `scopes` may lag behind it.
+ */
+export const getCompletions = (
+  code: string,
+  cursor: number,
+  document: TokenizedDocument,
+  scopes: CompletionScope[]
+): CompletionResult | null => {
+  const lineStart = code.lastIndexOf('\n', cursor - 1) + 1;
+  const before = code.slice(lineStart, cursor);
+  let lineIndex = 0;
+  for (let i = 0; i < lineStart; i++) {
+    if (code.charCodeAt(i) === 10) lineIndex++;
+  }
+
+  // Nothing to complete inside comments, strings, note bodies or message text
+  const startState = lineIndex > 0 ? document.states[lineIndex - 1] : INITIAL_LEXER_STATE;
+  const { tokens } = tokenizeLine(before, startState);
+  const significant = tokens.filter(token => token.type !== 'whitespace');
+  const last = significant[significant.length - 1];
+  const endsInWhitespace = tokens.length > 0 && tokens[tokens.length - 1].type === 'whitespace';
+  if (last && (last.type === 'comment' || last.type === 'label')) return null;
+  if (last && last.type === 'string' && !endsInWhitespace) return null;
+
+  const theme = before.match(THEME_REGEX);
+  if (theme) {
+    const items = PUML_THEMES
+      .filter(t => t.value)
+      .map((t): CompletionItem => ({ label: t.value, kind: 'theme', detail: t.name }));
+    return result(cursor - theme[1].length, filterItems(items, theme[1]));
+  }
+
+  const color = before.match(COLOR_REGEX);
+  if (color) {
+    const items = COLOR_NAMES.map((name): CompletionItem => ({ label: `#${name}`, kind: 'color' }));
+    return result(cursor - color[0].length, filterItems(items, color[0]));
+  }
+
+  const skinparamName = before.match(SKINPARAM_NAME_REGEX);
+  if (skinparamName) {
+    const items: CompletionItem[] = [
+      ...SKINPARAMS.map((p): CompletionItem => ({ label: p.name, kind: 'skinparam', detail: p.type })),
+      ...SKINPARAM_ELEMENTS.map((element): CompletionItem => ({ label: element.toLowerCase(), kind: 'skinparam', detail: '{ }' })),
+    ];
+    return result(cursor - skinparamName[1].length, filterItems(items, skinparamName[1]));
+  }
+
+  const skinparamValue = before.match(SKINPARAM_VALUE_REGEX);
+  if (skinparamValue) {
+    const p = findSkinparam(skinparamValue[1]);
+    if (!p) return null;
+    return result(cursor - skinparamValue[2].length, filterItems(valueItems(skinparamValues(p)), skinparamValue[2]));
+  }
+
+  if (isInSkinparamBlock(document.lines, lineIndex)) {
+    const property = before.match(BLOCK_PROPERTY_REGEX);
+    if (property) {
+      const items = SKINPARAM_BLOCK_PROPERTIES.map((p): CompletionItem => ({ label: p.name, kind: 'skinparam', detail: p.type }));
+      return result(cursor - property[1].length, filterItems(items, property[1]));
+    }
+    const value = before.match(BLOCK_VALUE_REGEX);
+    const p = value && findSkinparam(value[1], SKINPARAM_BLOCK_PROPERTIES);
+    if (!value || !p) return null;
+    return result(cursor - value[2].length, filterItems(valueItems(skinparamValues(p)), value[2]));
+  }
+
+  // The diagram block around the cursor decides the keywords and which symbols are in scope
+  const line = lineIndex + 1;
+  const scope = scopes.find(candidate => line >= candidate.startLine && line <= candidate.endLine)
+    || scopes[scopes.length - 1]
+    || DEFAULT_SCOPE;
+
+  // Arrow endpoint: `A -> B`, where B may still be empty after a space
+  const endpointWord = (before.match(ENDPOINT_WORD_REGEX) || [''])[0];
+  const beforeWord = significant[significant.length - (endpointWord ? 2 : 1)];
+  if (beforeWord && beforeWord.type === 'arrow' && (endpointWord || endsInWhitespace)) {
+    return result(cursor - endpointWord.length, filterItems(scope.symbols, endpointWord));
+  }
+
+  const word = (before.match(KEYWORD_WORD_REGEX) || [''])[0];
+  // Very short words only trigger for tags, preprocessor directives and arrows
+  if (word.length < 1 || (word.length < 2 && !/^[-@!]/.test(word))) return null;
+
+  const keywords = [...(KEYWORDS_BY_DIAGRAM[scope.diagram] || []), ...COMMON_KEYWORDS]
+    .filter((keyword, i, all) => all.indexOf(keyword) === i)
+    .map((keyword): CompletionItem => ({ label: keyword, kind: /^[@!]/.test(keyword) ? 'command' : 'keyword' }));
+
+  // Lines start with a keyword or with the left end of an arrow
+  const isLineStart = before.trim() === word;
+  const items = isLineStart ? [...keywords, ...scope.symbols] : keywords;
+  return result(cursor - word.length, filterItems(items, word));
+};
@@ -0,0 +1,334 @@
+/**
+ * Minimal, dependency-free raw DEFLATE (RFC 1951) implementation.
+ *
+ * The encoder uses LZ77 with hash chains and the fixed Huffman tables, which is
+ * plenty for diagram sources and keeps the code small. The decoder handles all
+ * three block types, so it can read payloads produced by zlib (plantuml.com,
+ * wiki links, etc.).
+ */
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// Order in which code length code lengths are stored in a dynamic block header
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+const HASH_SIZE = 1 << 15;
+
+// =========================================================
+// Encoder
+// =========================================================
+
+class BitWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private bitCount = 0;
+
+  // Write `n` bits of `value`, least significant bit first
+  writeBits(value: number, n: number) {
+    for (let i = 0; i < n; i++) {
+      this.current |= ((value >> i) & 1) << this.bitCount;
+      this.bitCount++;
+      if (this.bitCount === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.bitCount = 0;
+      }
+    }
+  }
+
+  // Huffman codes are packed most significant bit first
+  writeCode(code: number, length: number) {
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | ((code >> i) & 1);
+    }
+    this.writeBits(reversed, length);
+  }
+
+  finish(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.bytes.push(this.current);
+    }
+    return new Uint8Array(this.bytes);
+  }
+}
+
+const writeFixedLiteral = (writer: BitWriter, symbol: number) => {
+  if (symbol < 144) writer.writeCode(0x30 + symbol, 8);
+  else if (symbol < 256) writer.writeCode(0x190 + symbol - 144, 9);
+  else if (symbol < 280) writer.writeCode(symbol - 256, 7);
+  else writer.writeCode(0xc0 + symbol - 280, 8);
+};
+
+const findCode = (base: number[], value: number): number => {
+  let code = base.length - 1;
+  while (base[code] > value) code--;
+  return code;
+};
+
+const writeMatch = (writer: BitWriter, length: number, distance: number) => {
+  const lengthCode = findCode(LENGTH_BASE, length);
+  writeFixedLiteral(writer, 257 + lengthCode);
+  writer.writeBits(length - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+
+  const distCode = findCode(DIST_BASE, distance);
+  writer.writeCode(distCode, 5);
+  writer.writeBits(distance - DIST_BASE[distCode], DIST_EXTRA[distCode]);
+};
+
+const hashAt = (data: Uint8Array, i: number) =>
+  ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & (HASH_SIZE - 1);
+
+/**
+ * Compresses bytes into a single fixed-Huffman raw DEFLATE block.
+ */
+export const deflateRaw = (data: Uint8Array): Uint8Array => {
+  const writer = new BitWriter();
+  writer.writeBits(1, 1); // BFINAL
+  writer.writeBits(1, 2); // BTYPE = 01 (fixed Huffman)
+
+  const head = new Int32Array(HASH_SIZE).fill(-1);
+  const prev = new Int32Array(data.length);
+
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > data.length) return;
+    const h = hashAt(data, i);
+    prev[i] = head[h];
+    head[h] = i;
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+
+    if (i + MIN_MATCH <= data.length) {
+      let candidate = head[hashAt(data, i)];
+      let chain = 0;
+      const maxLength = Math.min(MAX_MATCH, data.length - i);
+
+      while (candidate !== -1 && i - candidate <= WINDOW_SIZE && chain < MAX_CHAIN) {
+        let length = 0;
+        while (length < maxLength && data[candidate + length] === data[i + length]) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+          if (length === maxLength) break;
+        }
+        candidate = prev[candidate];
+        chain++;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      writeMatch(writer, bestLength, bestDistance);
+      for (let k = 0; k < bestLength; k++) insert(i + k);
+      i += bestLength;
+    } else {
+      writeFixedLiteral(writer, data[i]);
+      insert(i);
+      i++;
+    }
+  }
+
+  writeFixedLiteral(writer, 256); // End of block
+  return writer.finish();
+};
+
+// =========================================================
+// Decoder
+// =========================================================
+
+interface HuffmanTable {
+  counts: Uint16Array; // Number of codes of each length
+  symbols: Uint16Array; // Symbols ordered by code
+}
+
+const buildTable = (lengths: ArrayLike<number>): HuffmanTable => {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  }
+  return { counts, symbols };
+};
+
+const FIXED_LITERAL_TABLE = (() => {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return buildTable(lengths);
+})();
+
+const FIXED_DIST_TABLE = buildTable(new Uint8Array(30).fill(5));
+
+class BitReader {
+  private pos = 0;
+  private bit = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  readBit(): number {
+    if (this.pos >= this.data.length) {
+      throw new Error('Unexpected end of deflate stream');
+    }
+    const value = (this.data[this.pos] >> this.bit) & 1;
+    if (++this.bit === 8) {
+      this.bit = 0;
+      this.pos++;
+    }
+    return value;
+  }
+
+  readBits(n: number): number {
+    let value = 0;
+    for (let i = 0; i < n; i++) value |= this.readBit() << i;
+    return value;
+  }
+
+  alignToByte() {
+    if (this.bit !== 0) {
+      this.bit = 0;
+      this.pos++;
+    }
+  }
+
+  readByte(): number {
+    if (this.pos >= this.data.length) {
+      throw new Error('Unexpected end of deflate stream');
+    }
+    return this.data[this.pos++];
+  }
+
+  decodeSymbol(table: HuffmanTable): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= this.readBit();
+      const count = table.counts[len];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code');
+  }
+}
+
+const readDynamicTables = (reader: BitReader): [HuffmanTable, HuffmanTable] => {
+  const literalCount = reader.readBits(5) + 257;
+  const distCount = reader.readBits(5) + 1;
+  const codeLengthCount = reader.readBits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+  }
+  const codeLengthTable = buildTable(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distCount);
+  let i = 0;
+  while (i < lengths.length) {
+    const symbol = reader.decodeSymbol(codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+    } else {
+      let repeat = 0;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) throw new Error('Invalid code length repeat');
+        value = lengths[i - 1];
+        repeat = 3 + reader.readBits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + reader.readBits(3);
+      } else {
+        repeat = 11 + reader.readBits(7);
+      }
+      if (i + repeat > lengths.length) throw new Error('Invalid code lengths');
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+  }
+
+  return [
+    buildTable(lengths.subarray(0, literalCount)),
+    buildTable(lengths.subarray(literalCount)),
+  ];
+};
+
+/**
+ * Decompresses a raw DEFLATE stream (no zlib/gzip header).
+ */
+export const inflateRaw = (data: Uint8Array): Uint8Array => {
+  const reader = new BitReader(data);
+  const out: number[] = [];
+
+  let isFinal = 0;
+  while (!isFinal) {
+    isFinal = reader.readBit();
+    const type = reader.readBits(2);
+
+    if (type === 0) {
+      // Stored block
+      reader.alignToByte();
+      const len = reader.readByte() | (reader.readByte() << 8);
+      reader.readByte();
+      reader.readByte(); // NLEN, ignored
+      for (let i = 0; i < len; i++) out.push(reader.readByte());
+      continue;
+    }
+
+    let literalTable: HuffmanTable;
+    let distTable: HuffmanTable;
+    if (type === 1) {
+      literalTable = FIXED_LITERAL_TABLE;
+      distTable = FIXED_DIST_TABLE;
+    } else if (type === 2) {
+      [literalTable, distTable] = readDynamicTables(reader);
+    } else {
+      throw new Error('Invalid deflate block type');
+    }
+
+    for (;;) {
+      const symbol = reader.decodeSymbol(literalTable);
+      if (symbol < 256) {
+        out.push(symbol);
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const lengthCode = symbol - 257;
+        if (lengthCode >= LENGTH_BASE.length) throw new Error('Invalid length code');
+        const length = LENGTH_BASE[lengthCode] + reader.readBits(LENGTH_EXTRA[lengthCode]);
+
+        const distCode = reader.decodeSymbol(distTable);
+        if (distCode >= DIST_BASE.length) throw new Error('Invalid distance code');
+        const distance = DIST_BASE[distCode] + reader.readBits(DIST_EXTRA[distCode]);
+        if (distance > out.length) throw new Error('Invalid distance');
+
+        const start = out.length - distance;
+        for (let k = 0; k < length; k++) out.push(out[start + k]);
+      }
+    }
+  }
+
+  return new Uint8Array(out);
+};
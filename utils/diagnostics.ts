@@ -0,0 +1,122 @@
+import { Diagnostic } from '../types';
+
+/**
+ * Extracts the visible text lines of an SVG document, in document order.
+ */
+const extractSvgTextLines = (svgText: string): string[] => {
+  const lines: string[] = [];
+  const textRegex = /<text\b[^>]*>([\s\S]*?)<\/text>/g;
+  let match: RegExpExecArray | null;
+  while ((match = textRegex.exec(svgText)) !== null) {
+    const text = decodeXmlEntities(match[1].replace(/<[^>]+>/g, '')).trim();
+    if (text) lines.push(text);
+  }
+  return lines;
+};
+
+const decodeXmlEntities = (text: string): string =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\u00a0/g, ' ');
+
+// "[From string (line 3) ]" precedes the echoed source in PlantUML error images.
+// Errors inside included files add a location line per file, e.g. "[From common/styles.iuml (line 2) ]".
+const LOCATION_REGEX = /\[From (.+?) \(line (\d+)\)\s*\]/;
+// Description PlantUML gives the piped source itself
+const MAIN_SOURCE = 'string';
+const ERROR_TEXT_REGEX = /Syntax Error|Cannot |Error line|not found|java\.lang\.\w+(Exception|Error)/i;
+const HINT_REGEX = /^Did you mean\s*:?\s*/i;
+const WARNING_REGEX = /^Warning\s*:?\s*/i;
+
+/**
+ * Splits PlantUML message lines into the main message and "Did you mean" hints.
+ */
+const buildDiagnostic = (messageLines: string[], line: number | undefined, sourceLine?: string): Diagnostic => {
+  const hints: string[] = [];
+  const messages: string[] = [];
+
+  messageLines.forEach((text, index) => {
+    if (HINT_REGEX.test(text)) {
+      const hint = text.replace(HINT_REGEX, '').replace(/\?$/, '').trim();
+      if (hint) hints.push(hint);
+    } else if (index > 0 && /^Did you mean\s*:?\s*$/i.test(messageLines[index - 1])) {
+      // Bare "Did you mean:" followed by the suggestion on its own line
+      hints.push(text.replace(/\?$/, ''));
+    } else {
+      messages.push(text);
+    }
+  });
+
+  const message = messages.join(' ').trim() || 'Syntax Error?';
+  const columnMatch = message.match(/column\s*:?\s*(\d+)/i);
+  let column = columnMatch ? parseInt(columnMatch[1], 10) : undefined;
+  if (column === undefined && sourceLine !== undefined && sourceLine.trim()) {
+    // PlantUML reports lines only: point at the first token of the offending line
+    column = sourceLine.length - sourceLine.trimStart().length + 1;
+  }
+
+  return {
+    line,
+    column,
+    message,
+    hints,
+    severity: WARNING_REGEX.test(message) ? 'warning' : 'error',
+  };
+};
+
+/**
+ * Parses the diagnostics PlantUML embeds in a rendered SVG.
+ * PlantUML returns a valid SVG image even on error, containing the error location,
+ * an echo of the source up to the failing line, and the error text.
+ *
+ * @param source The rendered source, used to tell the echoed source apart from the error text
+ */
+export const parseSvgDiagnostics = (svgText: string, source?: string): Diagnostic[] => {
+  const textLines = extractSvgTextLines(svgText);
+  const locationIndex = textLines.findIndex(t => LOCATION_REGEX.test(t));
+
+  if (locationIndex === -1) {
+    // No location: only report unmistakable failures (e.g. leaked Java exceptions)
+    const errorText = textLines.find(t => /Syntax Error\?|java\.lang\.\w+(Exception|Error)/i.test(t));
+    return errorText ? [buildDiagnostic([errorText], undefined)] : [];
+  }
+
+  // Consecutive location lines: the piped source and any included files the error is in
+  let locationEnd = locationIndex;
+  while (locationEnd < textLines.length && LOCATION_REGEX.test(textLines[locationEnd])) locationEnd++;
+  const locations = textLines.slice(locationIndex, locationEnd).map(text => {
+    const match = text.match(LOCATION_REGEX)!;
+    return { file: match[1], line: parseInt(match[2], 10) };
+  });
+  const mainLocation = locations.find(l => l.file === MAIN_SOURCE) || (locations.length === 1 ? locations[0] : undefined);
+  const includeLocations = locations.filter(l => l !== mainLocation);
+  const include = includeLocations.length > 0 ? includeLocations[includeLocations.length - 1] : undefined;
+
+  const line = mainLocation?.line;
+  const sourceLine = line !== undefined ? source?.split('\n')[line - 1] : undefined;
+  const afterLocation = textLines.slice(locationEnd);
+
+  let messageLines: string[] = [];
+  // The echo is of the included file when the error is inside one
+  if (!include && sourceLine !== undefined && sourceLine.trim()) {
+    // The echo ends with the offending line, everything after it is the error text
+    const echoEnd = afterLocation.lastIndexOf(sourceLine.trim());
+    if (echoEnd !== -1) messageLines = afterLocation.slice(echoEnd + 1);
+  }
+  if (messageLines.length === 0) {
+    const firstErrorIndex = afterLocation.findIndex(t => ERROR_TEXT_REGEX.test(t));
+    messageLines = firstErrorIndex !== -1
+      ? afterLocation.slice(firstErrorIndex)
+      : afterLocation.slice(-1);
+  }
+
+  const diagnostic = buildDiagnostic(messageLines, line, sourceLine);
+  return [include ? { ...diagnostic, include } : diagnostic];
+};
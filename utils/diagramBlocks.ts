@@ -0,0 +1,128 @@
+/**
+ * One `@startXXX ... @endXXX` block of a document.
+ */
+export interface DiagramBlock {
+  index: number;
+  type: string; // The part after @start, e.g. 'uml', 'mindmap', 'gantt'
+  title?: string; // Name given after @startXXX, otherwise the block's `title` line
+  source: string;
+  startLine: number; // 1-based line of the @start tag
+  endLine: number; // 1-based line of the @end tag, or the last line if unterminated
+  pageCount: number; // 1 + number of `newpage` lines
+}
+
+const START_REGEX = /^\s*@start(\w+)\b(.*)$/i;
+const TITLE_REGEX = /^\s*title\s+(.+?)\s*$/i;
+const NEWPAGE_REGEX = /^\s*newpage\b/i;
+
+// `@startuml name` or `@startuml(id=name)`
+const parseStartName = (rest: string): string | undefined => {
+  const idMatch = rest.match(/\(\s*id\s*=\s*([^)]+)\)/i);
+  const name = (idMatch ? idMatch[1] : rest).trim();
+  return name || undefined;
+};
+
+/**
+ * Splits a document into its diagram blocks.
+ * Text without any @start line is returned as a single block, so it still reaches
+ * the server and gets reported there.
+ */
+export const splitDiagramBlocks = (code: string): DiagramBlock[] => {
+  const lines = code.split('\n');
+  const blocks: DiagramBlock[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const startMatch = lines[i].match(START_REGEX);
+    if (!startMatch) {
+      i++;
+      continue;
+    }
+
+    const type = startMatch[1].toLowerCase();
+    const endRegex = new RegExp(`^\\s*@end${type}\\b`, 'i');
+    const start = i;
+    let title = parseStartName(startMatch[2]);
+    let pageCount = 1;
+
+    i++;
+    while (i < lines.length && !endRegex.test(lines[i])) {
+      if (NEWPAGE_REGEX.test(lines[i])) pageCount++;
+      if (!title) {
+        const titleMatch = lines[i].match(TITLE_REGEX);
+        if (titleMatch) title = titleMatch[1];
+      }
+      i++;
+    }
+    const end = Math.min(i, lines.length - 1);
+
+    blocks.push({
+      index: blocks.length,
+      type,
+      title,
+      source: lines.slice(start, end + 1).join('\n'),
+      startLine: start + 1,
+      endLine: end + 1,
+      pageCount,
+    });
+    i = end + 1;
+  }
+
+  if (blocks.length === 0) {
+    const pageCount = 1 + lines.filter(line => NEWPAGE_REGEX.test(line)).length;
+    return [{ index: 0, type: 'uml', source: code, startLine: 1, endLine: lines.length, pageCount }];
+  }
+  return blocks;
+};
+
+// Hints that a @startuml block is a particular kind of diagram; the kind with most matching hints wins
+const UML_KIND_HINTS: Record<string, RegExp[]> = {
+  sequence: [
+    /^\s*(participant|boundary|control|entity|database|collections|queue)\b/im,
+    /^\s*(alt|opt|loop|par|critical|activate|deactivate|autonumber|autoactivate|box)\b/im,
+    /^\s*[\w"]+\s*<?-+>>?\s*[\w"]+\s*:/m,
+  ],
+  class: [
+    /^\s*(abstract\s+)?(class|interface|enum|annotation|struct)\b/im,
+    /<\|--|--\|>|\*--|--\*|o--|--o|\.\.\|>|<\|\.\./,
+  ],
+  activity: [
+    /^\s*:[^\n]*;\s*$/m,
+    /^\s*(start|stop|endif|endwhile|fork|partition|repeat)\b/im,
+    /^\s*if\s*\(/im,
+  ],
+  usecase: [
+    /^\s*usecase\b/im,
+    /^\s*\([^)\n]+\)/m,
+    /^\s*left to right direction\b/im,
+  ],
+  component: [
+    /^\s*(component|node|cloud|artifact|storage)\b/im,
+    /^\s*\[[^\]\n]+\]/m,
+  ],
+  state: [
+    /^\s*state\b/im,
+    /\[\*\]/,
+  ],
+};
+
+/**
+ * The kind of diagram a block holds. Blocks other than @startuml keep their own type
+ * ('mindmap', 'gantt', ...); @startuml blocks are classified as 'sequence', 'class',
+ * 'activity', 'usecase', 'component' or 'state' from their content, or stay 'uml' when
+ * nothing gives them away yet.
+ */
+export const detectDiagramType = (block: DiagramBlock): string => {
+  if (block.type !== 'uml') return block.type;
+
+  let best = 'uml';
+  let bestScore = 0;
+  Object.entries(UML_KIND_HINTS).forEach(([kind, hints]) => {
+    const score = hints.filter(hint => hint.test(block.source)).length;
+    if (score > bestScore) {
+      best = kind;
+      bestScore = score;
+    }
+  });
+  return best;
+};
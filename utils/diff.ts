@@ -0,0 +1,324 @@
+/**
+ * A run of lines that is equal in both texts, only in the new text, or only in the old text.
+ */
+export interface DiffOp {
+  type: 'equal' | 'insert' | 'delete';
+  lines: string[];
+}
+
+// Lines as numbers, equal for equal lines, so the inner loops compare integers
+const internLines = (oldLines: string[], newLines: string[]) => {
+  const ids = new Map<string, number>();
+  const intern = (lines: string[]) => Int32Array.from(lines, line => {
+    let id = ids.get(line);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(line, id);
+    }
+    return id;
+  });
+  return { a: intern(oldLines), b: intern(newLines) };
+};
+
+interface Snake {
+  x: number; // Start in the old text
+  y: number; // Start in the new text
+  u: number; // End in the old text
+  v: number; // End in the new text
+}
+
+/**
+ * Middle snake of a[aLo, aHi) against b[bLo, bHi): the diagonal run where the forward and
+ * backward searches for the shortest edit script meet (Myers, section 4b). Returns null when
+ * the edit distance exceeds 2 * maxCost.
+ */
+const middleSnake = (
+  a: Int32Array, aLo: number, aHi: number,
+  b: Int32Array, bLo: number, bHi: number,
+  maxCost: number
+): Snake | null => {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  // Furthest x on each diagonal, forward from the start and backward from the end
+  const forward = new Int32Array(2 * max + 3);
+  const backward = new Int32Array(2 * max + 3);
+
+  for (let d = 0; d <= Math.min(max, maxCost); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && forward[k - 1 + offset] < forward[k + 1 + offset])
+        ? forward[k + 1 + offset]
+        : forward[k - 1 + offset] + 1;
+      let y = x - k;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[k + offset] = x;
+      const c = delta - k;
+      if (odd && c >= -(d - 1) && c <= d - 1 && x + backward[c + offset] >= n) {
+        return { x: aLo + x0, y: bLo + y0, u: aLo + x, v: bLo + y };
+      }
+    }
+
+    for (let c = -d; c <= d; c += 2) {
+      let x = c === -d || (c !== d && backward[c - 1 + offset] < backward[c + 1 + offset])
+        ? backward[c + 1 + offset]
+        : backward[c - 1 + offset] + 1;
+      let y = x - c;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[c + offset] = x;
+      const k = delta - c;
+      if (!odd && k >= -d && k <= d && x + forward[k + offset] >= n) {
+        return { x: aHi - x, y: bHi - y, u: aHi - x0, v: bHi - y0 };
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Line diff (Myers' O(ND) algorithm in linear space). Consecutive lines of the same kind are
+ * grouped into one op. Regions whose edit distance exceeds about 2 * `maxCost` are reported as
+ * replaced wholesale instead of being diffed exactly, which bounds the time for unrelated texts.
+ */
+export const diffLines = (oldLines: string[], newLines: string[], maxCost = Infinity): DiffOp[] => {
+  const { a, b } = internLines(oldLines, newLines);
+  const ops: DiffOp[] = [];
+
+  const emit = (type: DiffOp['type'], lines: string[], start: number, end: number) => {
+    if (start >= end) return;
+    let last = ops[ops.length - 1];
+    if (!last || last.type !== type) {
+      last = { type, lines: [] };
+      ops.push(last);
+    }
+    for (let i = start; i < end; i++) last.lines.push(lines[i]);
+  };
+
+  const compare = (aLo: number, aHi: number, bLo: number, bHi: number) => {
+    // Common prefix and suffix need no search
+    const start = aLo;
+    while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+      aLo++;
+      bLo++;
+    }
+    emit('equal', oldLines, start, aLo);
+    let suffix = 0;
+    while (aHi > aLo && bHi > bLo && a[aHi - 1] === b[bHi - 1]) {
+      aHi--;
+      bHi--;
+      suffix++;
+    }
+
+    const snake = aLo < aHi && bLo < bHi ? middleSnake(a, aLo, aHi, b, bLo, bHi, maxCost) : null;
+    if (snake) {
+      compare(aLo, snake.x, bLo, snake.y);
+      emit('equal', oldLines, snake.x, snake.u);
+      compare(snake.u, aHi, snake.v, bHi);
+    } else {
+      emit('delete', oldLines, aLo, aHi);
+      emit('insert', newLines, bLo, bHi);
+    }
+    emit('equal', oldLines, aHi, aHi + suffix);
+  };
+
+  compare(0, a.length, 0, b.length);
+  return ops;
+};
+
+// A replaced range of the base text: base lines [start, end) become `lines`
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+const toHunks = (ops: DiffOp[]): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let position = 0;
+  let current: Hunk | null = null;
+
+  ops.forEach(op => {
+    if (op.type === 'equal') {
+      if (current) hunks.push(current);
+      current = null;
+      position += op.lines.length;
+      return;
+    }
+    if (!current) current = { start: position, end: position, lines: [] };
+    if (op.type === 'delete') {
+      position += op.lines.length;
+      current.end = position;
+    } else {
+      current.lines.push(...op.lines);
+    }
+  });
+  if (current) hunks.push(current);
+  return hunks;
+};
+
+// Base lines [start, end) with the given hunks (all inside the range) applied
+const applyHunks = (base: string[], hunks: Hunk[], start: number, end: number): string[] => {
+  const result: string[] = [];
+  let position = start;
+  hunks.forEach(hunk => {
+    result.push(...base.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  });
+  result.push(...base.slice(position, end));
+  return result;
+};
+
+export interface MergeResult {
+  text: string;
+  conflicts: number;
+}
+
+/**
+ * Three-way line merge of two edited versions of a common base.
+ * Changes to different regions are combined; overlapping, differing changes are
+ * written with conflict markers around both versions.
+ */
+export const merge3 = (
+  base: string,
+  mine: string,
+  theirs: string,
+  labels: { mine: string; theirs: string } = { mine: 'mine', theirs: 'theirs' }
+): MergeResult => {
+  const baseLines = base.split('\n');
+  const mineHunks = toHunks(diffLines(baseLines, mine.split('\n')));
+  const theirHunks = toHunks(diffLines(baseLines, theirs.split('\n')));
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < mineHunks.length || j < theirHunks.length) {
+    // Start a region at the next hunk of either side and grow it while hunks overlap or touch
+    const regionStart = Math.min(
+      i < mineHunks.length ? mineHunks[i].start : Infinity,
+      j < theirHunks.length ? theirHunks[j].start : Infinity
+    );
+    let regionEnd = regionStart;
+    const regionMine: Hunk[] = [];
+    const regionTheirs: Hunk[] = [];
+
+    let grew = true;
+    while (grew) {
+      grew = false;
+      if (i < mineHunks.length && mineHunks[i].start <= regionEnd) {
+        regionEnd = Math.max(regionEnd, mineHunks[i].end);
+        regionMine.push(mineHunks[i++]);
+        grew = true;
+      }
+      if (j < theirHunks.length && theirHunks[j].start <= regionEnd) {
+        regionEnd = Math.max(regionEnd, theirHunks[j].end);
+        regionTheirs.push(theirHunks[j++]);
+        grew = true;
+      }
+    }
+
+    output.push(...baseLines.slice(position, regionStart));
+    const mineVersion = applyHunks(baseLines, regionMine, regionStart, regionEnd);
+    const theirVersion = applyHunks(baseLines, regionTheirs, regionStart, regionEnd);
+
+    if (regionTheirs.length === 0 || mineVersion.join('\n') === theirVersion.join('\n')) {
+      output.push(...mineVersion);
+    } else if (regionMine.length === 0) {
+      output.push(...theirVersion);
+    } else {
+      conflicts++;
+      output.push(`<<<<<<< ${labels.mine}`, ...mineVersion, '=======', ...theirVersion, `>>>>>>> ${labels.theirs}`);
+    }
+    position = regionEnd;
+  }
+  output.push(...baseLines.slice(position));
+
+  return { text: output.join('\n'), conflicts };
+};
+
+/**
+ * One row of a side-by-side diff. Line numbers are 1-based; null where the side has no line.
+ */
+export interface DiffRow {
+  type: 'equal' | 'insert' | 'delete' | 'change';
+  oldLine: number | null;
+  oldText: string;
+  newLine: number | null;
+  newText: string;
+}
+
+/**
+ * Aligns two texts for a side-by-side view: deleted lines directly followed by inserted
+ * ones are paired up as changed lines, the surplus of either side stays unpaired.
+ */
+export const alignLines = (oldText: string, newText: string, maxCost = Infinity): DiffRow[] => {
+  const ops = diffLines(oldText.split('\n'), newText.split('\n'), maxCost);
+  const rows: DiffRow[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+
+  for (let i = 0; i < ops.length; i++) {
+    const op = ops[i];
+    if (op.type === 'equal') {
+      op.lines.forEach(text => rows.push({ type: 'equal', oldLine: oldLine++, oldText: text, newLine: newLine++, newText: text }));
+      continue;
+    }
+
+    const deleted = op.type === 'delete' ? op.lines : [];
+    const inserted = op.type === 'insert' ? op.lines : ops[i + 1]?.type === 'insert' ? ops[++i].lines : [];
+    for (let j = 0; j < Math.max(deleted.length, inserted.length); j++) {
+      const hasOld = j < deleted.length;
+      const hasNew = j < inserted.length;
+      rows.push({
+        type: hasOld && hasNew ? 'change' : hasOld ? 'delete' : 'insert',
+        oldLine: hasOld ? oldLine++ : null,
+        oldText: hasOld ? deleted[j] : '',
+        newLine: hasNew ? newLine++ : null,
+        newText: hasNew ? inserted[j] : '',
+      });
+    }
+  }
+  return rows;
+};
+
+export type LineChangeKind = 'added' | 'changed' | 'removed';
+
+/**
+ * Change markers for the lines of `newText` (1-based) compared with `oldText`: added and
+ * changed lines, and 'removed' on the line after deleted lines (the last line for
+ * deletions at the end). Past `maxCost` (see `diffLines`) a region is marked as changed
+ * as a whole.
+ */
+export const lineChanges = (oldText: string, newText: string, maxCost = Infinity): Map<number, LineChangeKind> => {
+  const changes = new Map<number, LineChangeKind>();
+  let hasRemoval = false;
+  let lastLine = 0;
+
+  alignLines(oldText, newText, maxCost).forEach(row => {
+    if (row.newLine === null) {
+      hasRemoval = true;
+      return;
+    }
+    if (row.type === 'insert') changes.set(row.newLine, 'added');
+    else if (row.type === 'change') changes.set(row.newLine, 'changed');
+    else if (hasRemoval) changes.set(row.newLine, 'removed');
+    hasRemoval = false;
+    lastLine = row.newLine;
+  });
+  if (hasRemoval && lastLine > 0 && !changes.has(lastLine)) changes.set(lastLine, 'removed');
+  return changes;
+};
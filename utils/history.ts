@@ -0,0 +1,167 @@
+/**
+ * A caret (start === end) or selected range in the editor text.
+ */
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+/**
+ * Replaces `removed` at `start` with `inserted`. Reversible, so one patch serves undo and redo.
+ */
+export interface TextPatch {
+  start: number;
+  removed: string;
+  inserted: string;
+}
+
+export interface HistoryEntry {
+  patch: TextPatch;
+  selectionBefore: TextSelection; // Restored by undo
+  selectionAfter: TextSelection; // Restored by redo
+}
+
+/**
+ * Undo history stored as patches: the first `index` entries lead to the current text,
+ * the rest can be redone.
+ */
+export interface EditHistory {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+// Even within the entry limit, patches beyond this many characters in total are dropped (oldest first)
+const MAX_HISTORY_CHARS = 8 * 1024 * 1024;
+
+export const createHistory = (): EditHistory => ({ entries: [], index: 0 });
+
+export const canUndo = (history: EditHistory) => history.index > 0;
+
+export const canRedo = (history: EditHistory) => history.index < history.entries.length;
+
+/**
+ * The single changed region between two texts (common prefix and suffix removed).
+ */
+export const diffText = (before: string, after: string): TextPatch => {
+  const maxPrefix = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < maxPrefix && before.charCodeAt(prefix) === after.charCodeAt(prefix)) prefix++;
+
+  const maxSuffix = maxPrefix - prefix;
+  let suffix = 0;
+  while (
+    suffix < maxSuffix &&
+    before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+
+  return {
+    start: prefix,
+    removed: before.slice(prefix, before.length - suffix),
+    inserted: after.slice(prefix, after.length - suffix),
+  };
+};
+
+export const applyPatch = (text: string, patch: TextPatch) =>
+  text.slice(0, patch.start) + patch.inserted + text.slice(patch.start + patch.removed.length);
+
+export const revertPatch = (text: string, patch: TextPatch) =>
+  text.slice(0, patch.start) + patch.removed + text.slice(patch.start + patch.inserted.length);
+
+// Without a recorded selection: the replaced text before, a caret after the inserted text
+const selectionBeforePatch = (patch: TextPatch): TextSelection => ({ start: patch.start, end: patch.start + patch.removed.length });
+const selectionAfterPatch = (patch: TextPatch): TextSelection => {
+  const caret = patch.start + patch.inserted.length;
+  return { start: caret, end: caret };
+};
+
+// Typing continues the last entry when the new change touches the text that entry inserted
+const isContinuation = (last: TextPatch, next: TextPatch) =>
+  next.start >= last.start && next.start <= last.start + last.inserted.length;
+
+/**
+ * Records the edit from `before` to `after`, discarding redo entries.
+ * With `coalesce`, a change adjacent to the last entry is merged into it (one undo step for a burst of typing).
+ */
+export const recordEdit = (
+  history: EditHistory,
+  before: string,
+  after: string,
+  selection: { before: TextSelection; after: TextSelection } | undefined,
+  coalesce: boolean
+): EditHistory => {
+  if (before === after) return history;
+
+  const entries = history.entries.slice(0, history.index);
+  const patch = diffText(before, after);
+  const last = entries[entries.length - 1];
+
+  if (coalesce && last && history.index === history.entries.length && isContinuation(last.patch, patch)) {
+    const original = revertPatch(before, last.patch);
+    entries.pop();
+    // Typed and deleted back to where the entry started: nothing left to undo
+    if (original !== after) {
+      const merged = diffText(original, after);
+      entries.push({
+        patch: merged,
+        selectionBefore: last.selectionBefore,
+        selectionAfter: selection?.after ?? selectionAfterPatch(merged),
+      });
+    }
+  } else {
+    entries.push({
+      patch,
+      selectionBefore: selection?.before ?? selectionBeforePatch(patch),
+      selectionAfter: selection?.after ?? selectionAfterPatch(patch),
+    });
+  }
+  return { entries, index: entries.length };
+};
+
+/**
+ * Steps back one entry. Returns null when there is nothing to undo.
+ */
+export const undo = (history: EditHistory, text: string) => {
+  if (!canUndo(history)) return null;
+  const entry = history.entries[history.index - 1];
+  return {
+    history: { ...history, index: history.index - 1 },
+    text: revertPatch(text, entry.patch),
+    selection: entry.selectionBefore,
+  };
+};
+
+/**
+ * Re-applies the next entry. Returns null when there is nothing to redo.
+ */
+export const redo = (history: EditHistory, text: string) => {
+  if (!canRedo(history)) return null;
+  const entry = history.entries[history.index];
+  return {
+    history: { ...history, index: history.index + 1 },
+    text: applyPatch(text, entry.patch),
+    selection: entry.selectionAfter,
+  };
+};
+
+const entryChars = (entry: HistoryEntry) => entry.patch.removed.length + entry.patch.inserted.length;
+
+/**
+ * Drops the oldest undo entries beyond `maxEntries` or the character budget,
+ * then redo entries if it is still too long.
+ */
+export const limitHistory = (history: EditHistory, maxEntries: number): EditHistory => {
+  const limit = Math.max(0, maxEntries);
+  let totalChars = history.entries.reduce((sum, entry) => sum + entryChars(entry), 0);
+  if (history.entries.length <= limit && totalChars <= MAX_HISTORY_CHARS) return history;
+
+  let dropped = 0;
+  while (dropped < history.index && (history.entries.length - dropped > limit || totalChars > MAX_HISTORY_CHARS)) {
+    totalChars -= entryChars(history.entries[dropped]);
+    dropped++;
+  }
+  const index = history.index - dropped;
+  const entries = history.entries.slice(dropped, dropped + Math.max(limit, index));
+  return { entries, index };
+};
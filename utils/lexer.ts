@@ -0,0 +1,357 @@
+/**
+ * Kinds of tokens in PlantUML source.
+ * - `tag`: @startXXX / @endXXX
+ * - `preprocessor`: !include, !define, !theme, ... (the directive word)
+ * - `directive`: diagram settings such as skinparam, hide, title
+ * - `keyword`: element declarations (participant, class, state, ...)
+ * - `control`: flow and grouping (if, alt, note, end, ...)
+ * - `operator`: joining words (as, of, over, ...)
+ * - `label`: free text (messages after `:`, activity labels, note bodies)
+ */
+export type TokenType =
+  | 'tag'
+  | 'preprocessor'
+  | 'directive'
+  | 'comment'
+  | 'string'
+  | 'keyword'
+  | 'control'
+  | 'operator'
+  | 'arrow'
+  | 'color'
+  | 'label'
+  | 'identifier'
+  | 'punctuation'
+  | 'whitespace'
+  | 'text';
+
+/**
+ * A token within one line. The tokens of a line concatenate back to the line exactly.
+ */
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number; // 0-based column
+}
+
+/**
+ * What carries over from one line to the next. Two lines starting in equal states
+ * (see `isSameLexerState`) produce the same tokens.
+ */
+export interface LexerState {
+  inComment: boolean; // Inside /' ... '/
+  block: 'note' | 'legend' | null; // Inside a multi-line note or legend, whose lines are plain text
+  diagram: string | null; // Type of the enclosing @startXXX block, e.g. 'uml', 'mindmap'
+}
+
+export interface LineTokens {
+  tokens: Token[];
+  state: LexerState; // State at the end of the line
+}
+
+export const INITIAL_LEXER_STATE: LexerState = { inComment: false, block: null, diagram: null };
+
+export const isSameLexerState = (a: LexerState, b: LexerState) =>
+  a.inComment === b.inComment && a.block === b.block && a.diagram === b.diagram;
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+// Element declarations of @startuml diagrams (sequence, class, use case, component, state, deployment, ...)
+const UML_KEYWORDS = words(`
+  actor participant boundary control entity database collections queue usecase
+  class interface abstract enum annotation struct exception protocol metaclass stereotype
+  component node cloud frame package namespace rectangle storage card file folder artifact
+  agent stack hexagon person system container state object map json diamond circle label
+  port portin portout process action together extends implements
+`);
+
+const UML_CONTROLS = words(`
+  if then else elseif endif while endwhile repeat endrepeat fork endfork split endsplit
+  switch case endswitch start stop end kill detach break backward partition group
+  alt opt loop par critical ref box endbox note rnote hnote endnote legend endlegend
+  activate deactivate destroy create return
+`);
+
+const UML_OPERATORS = words('as of over on is left right top bottom up down to direction');
+
+const DIRECTIVES = words(`
+  skinparam skin hide show remove autonumber autoactivate scale title header footer caption
+  mainframe newpage allowmixing allow_mixing
+`);
+
+// Types with their own syntax; anything else (including plain text outside a block) lexes as UML
+const DIAGRAM_KEYWORDS: Record<string, { keywords: Set<string>; controls: Set<string>; operators: Set<string> }> = {
+  uml: { keywords: UML_KEYWORDS, controls: UML_CONTROLS, operators: UML_OPERATORS },
+  mindmap: { keywords: words('side'), controls: words(''), operators: words('') },
+  wbs: { keywords: words(''), controls: words(''), operators: words('') },
+  gantt: {
+    keywords: words('project task milestone resource separator'),
+    controls: words('starts ends lasts requires happens completed closed open colored pauses'),
+    operators: words('at and on is to then after before from with days day weeks week'),
+  },
+  json: { keywords: words('true false null'), controls: words(''), operators: words('') },
+  yaml: { keywords: words('true false null'), controls: words(''), operators: words('') },
+  salt: { keywords: words(''), controls: words(''), operators: words('') },
+};
+
+// Line-oriented diagram types where ':' does not start a label
+const DATA_DIAGRAMS = new Set(['json', 'yaml', 'mindmap', 'wbs', 'gantt', 'salt']);
+
+const TAG_REGEX = /^@(start|end)(\w+)/i;
+const PREPROCESSOR_REGEX = /^!\w+/;
+const NOTE_START_REGEX = /^\s*[rh]?note\b/i;
+const NOTE_END_REGEX = /^\s*end\s?note\b/i;
+const LEGEND_START_REGEX = /^\s*legend\b/i;
+const LEGEND_END_REGEX = /^\s*end\s?legend\b/i;
+const WORD_REGEX = /^[\p{L}_][\p{L}\p{N}_]*/u;
+const COLOR_REGEX = /^#(?:[0-9a-fA-F]{3,8}\b|\w+)/;
+const WHITESPACE_REGEX = /^\s+/;
+
+// Arrow heads, an optional style `[#red,bold]` or direction (`-up->`) inside the body
+const ARROW_REGEX = /^(?:<<|<\|?|\*|o|x|\+|\}|\{|#|\\\\|\/)?(?:[-.=~]+(?:\[[^\]]*\]|(?:up|down|left|right|le|ri|do|u|d|l|r)(?=[-.=~[]))?)+(?:\|?>>?|\*|o|x|\+|#|\{|\}|\\\\|\/)?/;
+const ARROW_BODY_CHARS = /[-.=~]/g;
+
+// A single '-' or '.' is punctuation ("a-b", "1.5"); arrows have a head or a longer body
+const matchArrow = (rest: string) => {
+  const match = rest.match(ARROW_REGEX);
+  if (!match) return null;
+  const text = match[0];
+  const hasHead = /^[^-.=~]/.test(text) || /[^-.=~\]]$/.test(text);
+  // "o" and "x" heads must not swallow the start of a word
+  if (/^[ox]/.test(text) && text.length > 1 && !/[-.=~]/.test(text[1])) return null;
+  if (/[ox]$/.test(text) && WORD_REGEX.test(rest.slice(text.length))) {
+    return text.length > 2 ? text.slice(0, -1) : null;
+  }
+  if (hasHead || (text.match(ARROW_BODY_CHARS) || []).length >= 2) return text;
+  return null;
+};
+
+const classifyWord = (word: string, diagram: string | null): TokenType => {
+  const lower = word.toLowerCase();
+  const sets = DIAGRAM_KEYWORDS[diagram ?? 'uml'] ?? DIAGRAM_KEYWORDS.uml;
+  if (DIRECTIVES.has(lower)) return 'directive';
+  if (sets.keywords.has(lower)) return 'keyword';
+  if (sets.controls.has(lower)) return 'control';
+  if (sets.operators.has(lower)) return 'operator';
+  return 'identifier';
+};
+
+/**
+ * Tokenizes one line, starting in `state` (the state at the end of the previous line).
+ */
+export const tokenizeLine = (line: string, state: LexerState): LineTokens => {
+  const tokens: Token[] = [];
+  let { inComment, block, diagram } = state;
+  let pos = 0;
+
+  const push = (type: TokenType, text: string) => {
+    if (!text) return;
+    const last = tokens[tokens.length - 1];
+    // Merge runs of the same kind, except words, which features look up one by one
+    if (last && last.type === type && (type === 'text' || type === 'whitespace' || type === 'label' || type === 'comment')) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text, start: pos });
+    }
+    pos += text.length;
+  };
+
+  // Closes a block comment if it ends on this line; otherwise the rest of the line is comment
+  const readCommentBody = () => {
+    const end = line.indexOf("'/", pos);
+    if (end === -1) {
+      push('comment', line.slice(pos));
+      return;
+    }
+    push('comment', line.slice(pos, end + 2));
+    inComment = false;
+  };
+
+  if (inComment) readCommentBody();
+
+  // Multi-line note/legend bodies are text until their end line
+  if (!inComment && block) {
+    const endRegex = block === 'note' ? NOTE_END_REGEX : LEGEND_END_REGEX;
+    if (!endRegex.test(line)) {
+      push('label', line.slice(pos));
+      return { tokens, state: { inComment, block, diagram } };
+    }
+    block = null;
+  }
+
+  const isLineStart = () => line.slice(0, pos).trim() === '';
+  const isData = DATA_DIAGRAMS.has(diagram ?? '');
+  let isPreprocessorLine = false;
+  let hasArrow = false;
+
+  while (pos < line.length) {
+    if (inComment) {
+      readCommentBody();
+      continue;
+    }
+    const rest = line.slice(pos);
+
+    const space = rest.match(WHITESPACE_REGEX);
+    if (space) {
+      push('whitespace', space[0]);
+      continue;
+    }
+
+    if (rest.startsWith("/'")) {
+      inComment = true;
+      push('comment', "/'");
+      continue;
+    }
+
+    if (isLineStart()) {
+      // Single-quote comments only start a line; mid-line quotes are apostrophes ("it's")
+      if (rest.startsWith("'")) {
+        push('comment', rest);
+        break;
+      }
+
+      const tag = rest.match(TAG_REGEX);
+      if (tag) {
+        diagram = tag[1].toLowerCase() === 'start' ? tag[2].toLowerCase() : null;
+        push('tag', tag[0]);
+        continue;
+      }
+
+      const directive = rest.match(PREPROCESSOR_REGEX);
+      if (directive) {
+        isPreprocessorLine = true;
+        push('preprocessor', directive[0]);
+        // Include targets are paths, not PlantUML
+        if (/^!(include\w*|import)$/i.test(directive[0])) {
+          const target = line.slice(pos);
+          const leading = target.match(WHITESPACE_REGEX);
+          if (leading) push('whitespace', leading[0]);
+          push('string', line.slice(pos));
+        }
+        continue;
+      }
+
+      // Activity label: `:do something;`
+      if (rest.startsWith(':') && !isData) {
+        const end = rest.lastIndexOf(';');
+        push('punctuation', ':');
+        if (end > 0) {
+          push('label', rest.slice(1, end));
+          push('punctuation', rest.slice(end));
+        } else {
+          push('label', rest.slice(1));
+        }
+        continue;
+      }
+    }
+
+    if (rest[0] === '"') {
+      const end = rest.indexOf('"', 1);
+      push('string', end === -1 ? rest : rest.slice(0, end + 1));
+      continue;
+    }
+
+    // Message or description after ':' (sequence messages, notes, use case labels, ...)
+    if (rest[0] === ':' && !isData && !isPreprocessorLine && line.slice(0, pos).trim() !== '') {
+      push('punctuation', ':');
+      push('label', line.slice(pos));
+      break;
+    }
+
+    const arrowText = isData ? null : matchArrow(rest);
+    if (arrowText) {
+      hasArrow = true;
+      push('arrow', arrowText);
+      continue;
+    }
+
+    const color = rest.match(COLOR_REGEX);
+    if (color) {
+      push('color', color[0]);
+      continue;
+    }
+
+    const word = rest.match(WORD_REGEX);
+    if (word) {
+      // Words on preprocessor lines are macro names and arguments
+      push(isPreprocessorLine ? 'identifier' : classifyWord(word[0], diagram), word[0]);
+      continue;
+    }
+
+    push(/[{}()[\],;:<>|]/.test(rest[0]) ? 'punctuation' : 'text', rest[0]);
+  }
+
+  // A note or legend without inline text continues on the following lines
+  if (!inComment && !hasArrow && !isData) {
+    // `note left: text` and `note "text" as N1` are complete on one line
+    const hasInlineText = tokens.some(token => token.type === 'label' || token.type === 'string');
+    if (NOTE_START_REGEX.test(line) && !hasInlineText && !NOTE_END_REGEX.test(line)) block = 'note';
+    else if (LEGEND_START_REGEX.test(line) && !LEGEND_END_REGEX.test(line)) block = 'legend';
+  }
+
+  return { tokens, state: { inComment, block, diagram } };
+};
+
+/**
+ * Tokenizes a whole document, one token list per line.
+ */
+export const tokenize = (code: string): Token[][] => updateTokens(null, code.split('\n')).tokens;
+
+/**
+ * Tokens of a document with the lexer state after each line, so an edit can be re-lexed
+ * incrementally (see `updateTokens`).
+ */
+export interface TokenizedDocument {
+  lines: string[];
+  tokens: Token[][];
+  states: LexerState[]; // State at the end of each line
+}
+
+/**
+ * Re-lexes only what an edit can affect: from the first changed line until a line after the
+ * edited region starts in the same state as before, after which the old tokens are reused
+ * (the token arrays keep their identity, so per-line caches stay valid).
+ */
+export const updateTokens = (previous: TokenizedDocument | null, lines: string[]): TokenizedDocument => {
+  const oldLines = previous ? previous.lines : [];
+  const maxCommon = Math.min(oldLines.length, lines.length);
+
+  let prefix = 0;
+  while (prefix < maxCommon && oldLines[prefix] === lines[prefix]) prefix++;
+  if (previous && prefix === lines.length && prefix === oldLines.length) return previous;
+
+  let suffix = 0;
+  while (
+    suffix < maxCommon - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === lines[lines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const tokens = previous ? previous.tokens.slice(0, prefix) : [];
+  const states = previous ? previous.states.slice(0, prefix) : [];
+  let state = prefix > 0 ? states[prefix - 1] : INITIAL_LEXER_STATE;
+  // Old line index matching new line i, for lines in the unchanged suffix
+  const shift = oldLines.length - lines.length;
+
+  for (let i = prefix; i < lines.length; i++) {
+    const oldIndex = i + shift;
+    if (previous && i >= lines.length - suffix && oldIndex > 0) {
+      const oldStartState = previous.states[oldIndex - 1];
+      if (isSameLexerState(oldStartState, state)) {
+        // Not push(...rest): one argument per line overflows the stack on large documents
+        for (let j = oldIndex; j < previous.tokens.length; j++) {
+          tokens.push(previous.tokens[j]);
+          states.push(previous.states[j]);
+        }
+        break;
+      }
+    }
+    const result = tokenizeLine(lines[i], state);
+    tokens.push(result.tokens);
+    states.push(result.state);
+    state = result.state;
+  }
+
+  return { lines, tokens, states };
+};
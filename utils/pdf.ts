@@ -0,0 +1,86 @@
+/**
+ * A JPEG image placed on its own PDF page.
+ */
+export interface PdfImagePage {
+  jpeg: Uint8Array; // Baseline JPEG data, embedded as-is (DCTDecode)
+  width: number; // Pixel size of the image
+  height: number;
+}
+
+// Screen pixels are 1/96 inch, PDF units are 1/72 inch
+const PX_TO_PT = 72 / 96;
+
+const latin1 = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+/**
+ * Builds a minimal PDF with one page per image, each page sized to its image.
+ */
+export const createImagePdf = (pages: PdfImagePage[]): Uint8Array<ArrayBuffer> => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = []; // Byte offset of each object, by object number - 1
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? latin1(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (num: number) => {
+    offsets[num - 1] = length;
+    write(`${num} 0 obj\n`);
+  };
+
+  // Objects: 1 catalog, 2 page tree, then page, content and image for every page
+  const pageObject = (i: number) => 3 + i * 3;
+  const objectCount = 2 + pages.length * 3;
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  const kids = pages.map((_, i) => `${pageObject(i)} 0 R`).join(' ');
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const pageNum = pageObject(i);
+    const w = (page.width * PX_TO_PT).toFixed(2);
+    const h = (page.height * PX_TO_PT).toFixed(2);
+
+    beginObject(pageNum);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] ` +
+      `/Resources << /XObject << /Im0 ${pageNum + 2} 0 R >> >> /Contents ${pageNum + 1} 0 R >>\nendobj\n`
+    );
+
+    const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+    beginObject(pageNum + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(pageNum + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  chunks.forEach(chunk => {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  });
+  return pdf;
+};
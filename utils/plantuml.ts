@@ -1,75 +1,236 @@
 
 
+import { deflateRaw, inflateRaw } from './deflate';
+import { SyntaxCheckResult } from '../types';
+
 export const DEFAULT_SERVER_URL = 'https://www.plantuml.com/plantuml';
 
 /**
- * Encodes PlantUML source code into a URL for the PlantUML server.
- * 
- * Standard PlantUML uses a complex Deflate + Custom Base64 mapping.
- * To keep this client-side implementation lightweight and dependency-free,
- * we use the Hex encoding supported by PlantUML (~h).
- * 
- * Format: {serverUrl}/svg/~h<HEX_STRING>
+ * How diagram source is packed into the URL.
+ * - `deflate`: Standard PlantUML encoding (raw Deflate + PlantUML base64), as used by plantuml.com
+ * - `hex`: UTF-8 bytes as hex with the `~h` prefix. Larger, but trivially readable.
  */
-export const encodePlantUML = (code: string, serverUrl: string = DEFAULT_SERVER_URL): string => {
-  try {
-    // 1. Encode string to UTF-8 bytes
-    const encoder = new TextEncoder();
-    const data = encoder.encode(code);
-
-    // 2. Convert bytes to Hex string
-    let hexStr = '';
-    for (let i = 0; i < data.length; i++) {
-      const hex = data[i].toString(16);
-      hexStr += (hex.length === 1 ? '0' : '') + hex;
+export type UrlEncoding = 'deflate' | 'hex';
+
+// PlantUML uses its own base64 alphabet: 0-9, A-Z, a-z, '-', '_'
+const PLANTUML_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+
+/**
+ * Encodes bytes with the PlantUML base64 alphabet.
+ * Trailing partial groups are zero-padded, matching the reference implementation.
+ */
+export const encodePlantUMLBase64 = (data: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < data.length; i += 3) {
+    const b1 = data[i];
+    const b2 = i + 1 < data.length ? data[i + 1] : 0;
+    const b3 = i + 2 < data.length ? data[i + 2] : 0;
+    result += PLANTUML_ALPHABET[b1 >> 2];
+    result += PLANTUML_ALPHABET[((b1 & 0x3) << 4) | (b2 >> 4)];
+    result += PLANTUML_ALPHABET[((b2 & 0xf) << 2) | (b3 >> 6)];
+    result += PLANTUML_ALPHABET[b3 & 0x3f];
+  }
+  return result;
+};
+
+/**
+ * Decodes a PlantUML base64 string back to bytes.
+ * Throws if the string contains characters outside of the PlantUML alphabet.
+ */
+export const decodePlantUMLBase64 = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i += 4) {
+    const c = [0, 1, 2, 3].map(k => {
+      if (i + k >= text.length) return 0;
+      const v = PLANTUML_ALPHABET.indexOf(text[i + k]);
+      if (v === -1) throw new Error(`Invalid character in encoded diagram: ${text[i + k]}`);
+      return v;
+    });
+    bytes.push((c[0] << 2) | (c[1] >> 4));
+    bytes.push(((c[1] & 0xf) << 4) | (c[2] >> 2));
+    bytes.push(((c[2] & 0x3) << 6) | c[3]);
+  }
+  return new Uint8Array(bytes);
+};
+
+const toHex = (data: Uint8Array): string => {
+  let hexStr = '';
+  for (let i = 0; i < data.length; i++) {
+    const hex = data[i].toString(16);
+    hexStr += (hex.length === 1 ? '0' : '') + hex;
+  }
+  return hexStr;
+};
+
+/**
+ * Encodes PlantUML source into the path segment understood by PlantUML servers.
+ */
+export const encodePlantUMLSource = (code: string, encoding: UrlEncoding = 'deflate'): string => {
+  const data = new TextEncoder().encode(code);
+  if (encoding === 'hex') {
+    return `~h${toHex(data)}`;
+  }
+  return encodePlantUMLBase64(deflateRaw(data));
+};
+
+/**
+ * Decodes an encoded path segment (`~h<HEX>` or standard Deflate) back into source.
+ * Throws if the segment is malformed.
+ */
+export const decodePlantUMLSource = (encoded: string): string => {
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+  if (encoded.startsWith('~h')) {
+    const hex = encoded.substring(2);
+    if (!/^([0-9a-fA-F]{2})*$/.test(hex)) throw new Error('Invalid hex encoding');
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
     }
+    return decoder.decode(bytes);
+  }
+  return decoder.decode(inflateRaw(decodePlantUMLBase64(encoded)));
+};
+
+/**
+ * Output formats the editor can request; the name is also the server route.
+ */
+export type OutputFormat = 'svg' | 'png' | 'pdf' | 'eps' | 'latex' | 'txt';
 
-    // 3. Construct URL
+/**
+ * Encodes PlantUML source code into a URL for the PlantUML server.
+ *
+ * Format: {serverUrl}/{format}/[{page}/]<ENCODED>, where <ENCODED> is either the standard
+ * Deflate + PlantUML base64 payload or `~h<HEX_STRING>`.
+ */
+export const encodePlantUML = (
+  code: string,
+  serverUrl: string = DEFAULT_SERVER_URL,
+  encoding: UrlEncoding = 'deflate',
+  format: OutputFormat = 'svg',
+  page: number = 0
+): string => {
+  try {
     // Remove trailing slash from serverUrl if present
     const cleanBaseUrl = serverUrl.replace(/\/+$/, '');
-    
-    // Using ~h prefix for hex encoded strings
-    return `${cleanBaseUrl}/svg/~h${hexStr}`;
+    // The first page keeps the short form; later `newpage` pages use the 0-based index segment
+    const pageSegment = page > 0 ? `${page}/` : '';
+    return `${cleanBaseUrl}/${format}/${pageSegment}${encodePlantUMLSource(code, encoding)}`;
   } catch (e) {
     console.error("Failed to encode PlantUML", e);
     return '';
   }
 };
 
+// Path segments that precede the encoded diagram in PlantUML server URLs
+const URL_FORMAT_SEGMENTS = ['svg', 'png', 'uml', 'txt', 'pdf', 'eps', 'epstext', 'latex', 'map', 'proxy'];
+
 /**
- * Checks the generated SVG for specific PlantUML syntax error messages.
- * PlantUML returns a valid SVG image even on error, containing text describing the error.
+ * Extracts diagram source from a PlantUML server URL, e.g.
+ * `https://www.plantuml.com/plantuml/svg/SyfFKj2rKt3CoKnELR1Io4ZDoSa70000`
+ * or `http://localhost:8080/png/~h407374...`.
+ *
+ * Returns null if the text is not a URL or does not contain a decodable diagram.
  */
-export const checkSyntaxError = async (url: string): Promise<{ line: number; message: string } | null> => {
+export const decodePlantUMLUrl = (text: string): string | null => {
+  let parsed: URL;
   try {
-    const response = await fetch(url);
-    if (!response.ok) return null;
-    
+    parsed = new URL(text.trim());
+  } catch (e) {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+  const parts = parsed.pathname.split('/').filter(Boolean);
+  const formatIndex = parts.findIndex(p => URL_FORMAT_SEGMENTS.includes(p.toLowerCase()));
+
+  const candidates: string[] = [];
+  if (formatIndex !== -1) {
+    // Skip an optional page index: /png/1/<ENCODED>
+    let encodedIndex = formatIndex + 1;
+    if (/^\d+$/.test(parts[encodedIndex] || '')) encodedIndex++;
+    if (parts[encodedIndex]) candidates.push(parts[encodedIndex]);
+  }
+  // Fall back to a hex segment anywhere in the path
+  const hexPart = parts.find(p => p.startsWith('~h'));
+  if (hexPart) candidates.push(hexPart);
+
+  for (const candidate of candidates) {
+    try {
+      const source = decodePlantUMLSource(decodeURIComponent(candidate)).trim();
+      if (!source) continue;
+      // plantuml.com omits the @startuml/@enduml wrapper for plain UML diagrams
+      return /^@start\w+/m.test(source) ? source : `@startuml\n${source}\n@enduml`;
+    } catch (e) {
+      // Try next candidate
+    }
+  }
+  return null;
+};
+
+export interface ServerHealth {
+  ok: boolean;
+  latencyMs?: number;
+  version?: string;
+  error?: string;
+}
+
+/**
+ * Verifies that a PlantUML server is reachable and can render.
+ * Renders the built-in `version` diagram so the PlantUML version can be reported as well.
+ */
+export const checkServerHealth = async (serverUrl: string, timeoutMs: number = 5000): Promise<ServerHealth> => {
+  if (!serverUrl) return { ok: false, error: '未配置服务地址' };
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const startTime = performance.now();
+
+  try {
+    const response = await fetch(encodePlantUML('@startuml\nversion\n@enduml', serverUrl), { signal: controller.signal });
+    const latencyMs = Math.round(performance.now() - startTime);
+    if (!response.ok) {
+      return { ok: false, latencyMs, error: `服务返回错误状态 ${response.status}` };
+    }
+
     const svgText = await response.text();
-    
-    // PlantUML error SVGs usually contain "Syntax Error?" or "Error" text nodes
-    // Also catch java exceptions that might leak into the SVG text
-    const isError = svgText.includes("Syntax Error?") || 
-                    svgText.includes("Syntax error") || 
-                    svgText.includes("java.lang.IllegalStateException");
-
-    if (isError) {
-      // Try to extract line number
-      // Patterns: 
-      // - "[From string (line 2) ]"
-      // - "line 2"
-      // - "Line 2"
-      const lineMatch = svgText.match(/line\s*:?\s*(\d+)/i);
-      
-      return {
-        line: lineMatch ? parseInt(lineMatch[1], 10) : 1, // Default to line 1 if not found but error exists
-        message: "语法错误"
-      };
+    if (!svgText.includes('<svg')) {
+      return { ok: false, latencyMs, error: '服务响应不是有效的 SVG 图片' };
+    }
+
+    const versionMatch = svgText.match(/PlantUML version ([\w.\-]+)/i);
+    return { ok: true, latencyMs, version: versionMatch ? versionMatch[1] : undefined };
+  } catch (e: any) {
+    return { ok: false, error: e?.name === 'AbortError' ? `连接超时 (${timeoutMs / 1000}s)` : '无法连接到服务' };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * Validates source with the local service's check-only endpoint (`/check/<ENCODED>`),
+ * which runs PlantUML's syntax check without rendering. Only the bundled local server
+ * provides this endpoint.
+ * `dir` is the document's directory, which relative `!include`s resolve against.
+ *
+ * Returns null if the check could not be performed.
+ */
+export const checkSyntax = async (
+  serverUrl: string,
+  code: string,
+  encoding: UrlEncoding = 'deflate',
+  signal?: AbortSignal,
+  dir?: string | null
+): Promise<SyntaxCheckResult | null> => {
+  try {
+    const cleanBaseUrl = serverUrl.replace(/\/+$/, '');
+    const query = dir ? `?dir=${encodeURIComponent(dir)}` : '';
+    const response = await fetch(`${cleanBaseUrl}/check/${encodePlantUMLSource(code, encoding)}${query}`, { signal });
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (e: any) {
+    if (e?.name !== 'AbortError') {
+      console.error("Syntax check failed:", e);
     }
-    
-    return null;
-  } catch (e) {
-    console.error("Syntax check failed:", e);
     return null;
   }
 };
@@ -89,8 +250,8 @@ user -> fe : 输入 PlantUML 代码
 activate fe
 
 fe -> fe : 自动防抖动
-fe -> fe : 将代码编码为 Hex 格式
-fe -> puml : GET /svg/~h<HexCode>
+fe -> fe : 将代码压缩编码 (Deflate)
+fe -> puml : GET /svg/<EncodedCode>
 activate puml
 puml --> fe : 返回 SVG 图片
 deactivate puml
@@ -0,0 +1,56 @@
+import { UrlEncoding } from './plantuml';
+
+/**
+ * Where diagrams are rendered.
+ * - `local`: Bundled plantuml.jar served by the Electron main process
+ * - `custom`: A self-hosted PlantUML server (e.g. a team-internal instance)
+ * - `public`: The public plantuml.com server
+ */
+export type RenderBackend = 'local' | 'custom' | 'public';
+
+/**
+ * User preferences persisted across sessions (localStorage).
+ */
+export interface AppSettings {
+  urlEncoding: UrlEncoding;
+  renderBackend: RenderBackend;
+  customServerUrl: string;
+  renderCacheSizeMB: number; // Local service render cache budget
+  renderWorkers: number; // Number of PlantUML processes in the local pool
+  includePaths: string[]; // Searched for relative !include after the document's directory (local service)
+  undoLimit: number; // Undo steps kept per document
+}
+
+const STORAGE_KEY = 'plantuml-editor.settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  urlEncoding: 'deflate',
+  renderBackend: 'local',
+  customServerUrl: '',
+  renderCacheSizeMB: 64,
+  renderWorkers: 2,
+  includePaths: [],
+  undoLimit: 500,
+};
+
+/**
+ * Loads settings, falling back to defaults for missing or corrupted values.
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return { ...DEFAULT_SETTINGS };
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save settings", e);
+  }
+};
@@ -0,0 +1,136 @@
+/**
+ * What a skinparam accepts, used to offer its valid values.
+ */
+export type SkinparamValueType = 'color' | 'boolean' | 'number' | 'font' | 'enum';
+
+export interface Skinparam {
+  name: string;
+  type: SkinparamValueType;
+  values?: string[]; // Choices of an 'enum' parameter
+}
+
+// Standard color names understood by PlantUML (a subset of the HTML colors)
+export const COLOR_NAMES = [
+  'AliceBlue', 'AntiqueWhite', 'Aqua', 'Aquamarine', 'Azure', 'Beige', 'Bisque', 'Black', 'BlanchedAlmond',
+  'Blue', 'BlueViolet', 'Brown', 'BurlyWood', 'CadetBlue', 'Chartreuse', 'Chocolate', 'Coral', 'CornflowerBlue',
+  'Cornsilk', 'Crimson', 'Cyan', 'DarkBlue', 'DarkCyan', 'DarkGoldenRod', 'DarkGray', 'DarkGreen', 'DarkKhaki',
+  'DarkMagenta', 'DarkOrange', 'DarkRed', 'DarkSalmon', 'DarkSeaGreen', 'DarkSlateBlue', 'DarkSlateGray',
+  'DarkTurquoise', 'DarkViolet', 'DeepPink', 'DeepSkyBlue', 'DimGray', 'DodgerBlue', 'FireBrick', 'ForestGreen',
+  'Fuchsia', 'Gainsboro', 'Gold', 'GoldenRod', 'Gray', 'Green', 'GreenYellow', 'HoneyDew', 'HotPink', 'IndianRed',
+  'Indigo', 'Ivory', 'Khaki', 'Lavender', 'LavenderBlush', 'LawnGreen', 'LemonChiffon', 'LightBlue', 'LightCoral',
+  'LightCyan', 'LightGoldenRodYellow', 'LightGray', 'LightGreen', 'LightPink', 'LightSalmon', 'LightSeaGreen',
+  'LightSkyBlue', 'LightSlateGray', 'LightSteelBlue', 'LightYellow', 'Lime', 'LimeGreen', 'Linen', 'Magenta',
+  'Maroon', 'MediumAquaMarine', 'MediumBlue', 'MediumOrchid', 'MediumPurple', 'MediumSeaGreen', 'MediumSlateBlue',
+  'MediumSpringGreen', 'MediumTurquoise', 'MediumVioletRed', 'MidnightBlue', 'MintCream', 'MistyRose', 'Moccasin',
+  'NavajoWhite', 'Navy', 'OldLace', 'Olive', 'OliveDrab', 'Orange', 'OrangeRed', 'Orchid', 'PaleGoldenRod',
+  'PaleGreen', 'PaleTurquoise', 'PaleVioletRed', 'PapayaWhip', 'PeachPuff', 'Peru', 'Pink', 'Plum', 'PowderBlue',
+  'Purple', 'Red', 'RosyBrown', 'RoyalBlue', 'SaddleBrown', 'Salmon', 'SandyBrown', 'SeaGreen', 'SeaShell', 'Sienna',
+  'Silver', 'SkyBlue', 'SlateBlue', 'SlateGray', 'Snow', 'SpringGreen', 'SteelBlue', 'Tan', 'Teal', 'Thistle',
+  'Tomato', 'Transparent', 'Turquoise', 'Violet', 'Wheat', 'White', 'WhiteSmoke', 'Yellow', 'YellowGreen',
+];
+
+export const FONT_NAMES = ['Arial', 'Courier', 'Helvetica', 'Times', 'Verdana', 'Consolas', 'Microsoft YaHei', 'SimSun', 'SimHei'];
+
+const param = (name: string, type: SkinparamValueType, values?: string[]): Skinparam => ({ name, type, values });
+
+// Properties shared by the element blocks, e.g. `skinparam class { BackgroundColor ... }`
+const ELEMENT_PROPERTIES: Skinparam[] = [
+  param('BackgroundColor', 'color'),
+  param('BorderColor', 'color'),
+  param('BorderThickness', 'number'),
+  param('FontColor', 'color'),
+  param('FontName', 'font'),
+  param('FontSize', 'number'),
+  param('FontStyle', 'enum', ['plain', 'bold', 'italic']),
+  param('StereotypeFontColor', 'color'),
+  param('ArrowColor', 'color'),
+  param('ArrowThickness', 'number'),
+  param('Shadowing', 'boolean'),
+  param('RoundCorner', 'number'),
+];
+
+// Element names that prefix properties (`ClassBackgroundColor`) or open a block (`skinparam class {`)
+export const SKINPARAM_ELEMENTS = [
+  'Activity', 'Actor', 'Arrow', 'Boundary', 'Class', 'Component', 'Control', 'Database', 'Entity', 'Interface',
+  'Legend', 'Node', 'Note', 'Object', 'Package', 'Participant', 'Partition', 'Queue', 'Rectangle', 'Sequence',
+  'State', 'Swimlane', 'Title', 'Usecase',
+];
+
+const GLOBAL_PARAMS: Skinparam[] = [
+  param('BackgroundColor', 'color'),
+  param('DefaultFontName', 'font'),
+  param('DefaultFontSize', 'number'),
+  param('DefaultFontColor', 'color'),
+  param('DefaultTextAlignment', 'enum', ['left', 'center', 'right']),
+  param('Handwritten', 'boolean'),
+  param('Monochrome', 'enum', ['true', 'false', 'reverse']),
+  param('Shadowing', 'boolean'),
+  param('Linetype', 'enum', ['ortho', 'polyline']),
+  param('RoundCorner', 'number'),
+  param('Padding', 'number'),
+  param('Dpi', 'number'),
+  param('Nodesep', 'number'),
+  param('Ranksep', 'number'),
+  param('MaxMessageSize', 'number'),
+  param('Style', 'enum', ['strictuml']),
+  param('PackageStyle', 'enum', ['rectangle', 'folder', 'frame', 'cloud', 'node', 'database']),
+  param('ComponentStyle', 'enum', ['uml1', 'uml2', 'rectangle']),
+  param('SequenceMessageAlign', 'enum', ['left', 'right', 'center', 'direction', 'reverseDirection']),
+  param('SequenceArrowThickness', 'number'),
+  param('SequenceLifeLineBorderColor', 'color'),
+  param('SequenceGroupBackgroundColor', 'color'),
+  param('LifelineStrategy', 'enum', ['nosolid', 'solid']),
+  param('ResponseMessageBelowArrow', 'boolean'),
+  param('ParticipantPadding', 'number'),
+  param('BoxPadding', 'number'),
+  param('ClassAttributeIconSize', 'number'),
+  param('TitleBorderThickness', 'number'),
+  param('TitleBorderRoundCorner', 'number'),
+  param('ArrowColor', 'color'),
+  param('ArrowThickness', 'number'),
+  param('ArrowFontColor', 'color'),
+];
+
+/**
+ * Parameters accepted on a `skinparam Name value` line: global ones and element properties
+ * (`ClassBackgroundColor`, `NoteFontSize`, ...).
+ */
+export const SKINPARAMS: Skinparam[] = [
+  ...GLOBAL_PARAMS,
+  ...SKINPARAM_ELEMENTS.flatMap(element =>
+    ELEMENT_PROPERTIES
+      .filter(property => !property.name.startsWith(element))
+      .map(property => ({ ...property, name: `${element}${property.name}` }))
+  ),
+].filter((p, i, all) => all.findIndex(other => other.name === p.name) === i);
+
+/**
+ * Properties accepted inside a `skinparam element { ... }` block.
+ */
+export const SKINPARAM_BLOCK_PROPERTIES = ELEMENT_PROPERTIES;
+
+/**
+ * Looks up a parameter by name (case-insensitive, as PlantUML does).
+ */
+export const findSkinparam = (name: string, list: Skinparam[] = SKINPARAMS) => {
+  const lower = name.toLowerCase();
+  return list.find(p => p.name.toLowerCase() === lower);
+};
+
+/**
+ * Values worth offering for a parameter; colors are written with their '#'.
+ */
+export const skinparamValues = (p: Skinparam): string[] => {
+  switch (p.type) {
+    case 'color':
+      return COLOR_NAMES.map(color => `#${color}`);
+    case 'boolean':
+      return ['true', 'false'];
+    case 'font':
+      return FONT_NAMES;
+    case 'enum':
+      return p.values || [];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,229 @@
+import { Token, TokenType } from './lexer';
+
+/**
+ * Kinds of declared elements, as grouped in the outline.
+ */
+export type SymbolKind =
+  | 'participant'
+  | 'actor'
+  | 'class'
+  | 'interface'
+  | 'enum'
+  | 'usecase'
+  | 'component'
+  | 'object'
+  | 'state'
+  | 'package'
+  | 'partition'
+  | 'note';
+
+export const SYMBOL_KIND_LABELS: Record<SymbolKind, string> = {
+  participant: '参与者',
+  actor: '角色',
+  class: '类',
+  interface: '接口',
+  enum: '枚举',
+  usecase: '用例',
+  component: '组件',
+  object: '对象',
+  state: '状态',
+  package: '包',
+  partition: '分区',
+  note: '注释',
+};
+
+/**
+ * An element declared in the source, e.g. `participant "Web Server" as web`.
+ */
+export interface DocumentSymbol {
+  kind: SymbolKind;
+  keyword: string; // Declaring keyword as written, lower-case (e.g. 'database' for a participant)
+  name: string; // Display name, without quotes
+  alias?: string; // Name after `as`
+  line: number; // 1-based
+  column: number; // 0-based column of the name (or alias) in the line
+  length: number; // Length of that text in the line
+}
+
+// Declaring keyword -> symbol kind
+const DECLARATION_KINDS: Record<string, SymbolKind> = {
+  participant: 'participant',
+  boundary: 'participant',
+  control: 'participant',
+  entity: 'participant',
+  database: 'participant',
+  collections: 'participant',
+  queue: 'participant',
+  actor: 'actor',
+  person: 'actor',
+  class: 'class',
+  abstract: 'class',
+  annotation: 'class',
+  struct: 'class',
+  exception: 'class',
+  metaclass: 'class',
+  protocol: 'class',
+  stereotype: 'class',
+  interface: 'interface',
+  enum: 'enum',
+  usecase: 'usecase',
+  component: 'component',
+  node: 'component',
+  cloud: 'component',
+  artifact: 'component',
+  agent: 'component',
+  storage: 'component',
+  card: 'component',
+  file: 'component',
+  stack: 'component',
+  hexagon: 'component',
+  port: 'component',
+  portin: 'component',
+  portout: 'component',
+  system: 'component',
+  container: 'component',
+  object: 'object',
+  map: 'object',
+  json: 'object',
+  state: 'state',
+  package: 'package',
+  namespace: 'package',
+  frame: 'package',
+  folder: 'package',
+  rectangle: 'package',
+  partition: 'partition',
+  note: 'note',
+  rnote: 'note',
+  hnote: 'note',
+};
+
+const NAME_TYPES: TokenType[] = ['identifier', 'string', 'keyword', 'control', 'operator', 'directive'];
+
+const unquote = (text: string) => text.replace(/^"|"$/g, '');
+
+const CLOSING_BRACKETS: Record<string, string> = { '[': ']', '(': ')' };
+
+// The name starting at index `i` of the line's significant tokens: a quoted string, a bracketed
+// `[Web Server]` / `(Login)`, or a possibly dotted word (com.example.Foo)
+const readName = (tokens: Token[], i: number, lineText: string) => {
+  const first = tokens[i];
+  if (!first) return null;
+  if (first.type === 'string') return { text: unquote(first.text), column: first.start, length: first.text.length, next: i + 1 };
+
+  const closing = CLOSING_BRACKETS[first.text];
+  if (closing) {
+    const end = tokens.findIndex((token, j) => j > i && token.text === closing);
+    if (end === -1) return null;
+    const column = first.start + 1;
+    const text = lineText.slice(column, tokens[end].start);
+    return { text: text.trim(), column, length: text.length, next: end + 1 };
+  }
+
+  if (!NAME_TYPES.includes(first.type)) return null;
+  let text = first.text;
+  let end = i + 1;
+  while (
+    end + 1 < tokens.length &&
+    tokens[end].text === '.' &&
+    tokens[end].start === tokens[end - 1].start + tokens[end - 1].text.length &&
+    tokens[end + 1].type === 'identifier'
+  ) {
+    text += tokens[end].text + tokens[end + 1].text;
+    end += 2;
+  }
+  return { text, column: first.start, length: text.length, next: end };
+};
+
+const labelText = (tokens: Token[]) =>
+  tokens.filter(token => token.type === 'label').map(token => token.text).join('').trim();
+
+/**
+ * Elements declared in a tokenized document (see `tokenize`), in source order.
+ */
+export const collectSymbols = (lines: Token[][]): DocumentSymbol[] => {
+  const symbols: DocumentSymbol[] = [];
+
+  lines.forEach((lineTokens, index) => {
+    const tokens = lineTokens.filter(token => token.type !== 'whitespace');
+    if (tokens.length === 0) return;
+
+    // `abstract class Foo` declares a class
+    let keywordIndex = 0;
+    if (tokens[0].text.toLowerCase() === 'abstract' && tokens[1]?.text.toLowerCase() === 'class') keywordIndex = 1;
+    const keywordToken = tokens[keywordIndex];
+    if (!['keyword', 'control'].includes(keywordToken.type)) return;
+    const keyword = keywordToken.text.toLowerCase();
+    const kind = DECLARATION_KINDS[keyword];
+    if (!kind) return;
+    // `state` inside an arrow line or `note` endings are not declarations
+    if (tokens.some(token => token.type === 'arrow')) return;
+
+    const line = index + 1;
+    const lineText = lineTokens.map(token => token.text).join('');
+
+    if (kind === 'note') {
+      const asIndex = tokens.findIndex(token => token.type === 'operator' && token.text.toLowerCase() === 'as');
+      const alias = asIndex !== -1 ? readName(tokens, asIndex + 1, lineText) : null;
+      // Inline text (`note left: ...`, `note "..." as N1`), otherwise the first line of a multi-line note
+      const quoted = tokens.find(token => token.type === 'string');
+      const text = labelText(lineTokens) || (quoted && unquote(quoted.text)) || labelText(lines[index + 1] || []);
+      symbols.push({
+        kind,
+        keyword,
+        name: text || alias?.text || keyword,
+        alias: alias?.text,
+        line,
+        column: alias ? alias.column : keywordToken.start,
+        length: alias ? alias.length : keywordToken.text.length,
+      });
+      return;
+    }
+
+    const name = readName(tokens, keywordIndex + 1, lineText);
+    if (!name) return;
+    const asToken = tokens[name.next];
+    const alias = asToken && asToken.type === 'operator' && asToken.text.toLowerCase() === 'as'
+      ? readName(tokens, name.next + 1, lineText)
+      : null;
+
+    symbols.push({
+      kind,
+      keyword,
+      name: name.text,
+      alias: alias?.text,
+      line,
+      column: name.column,
+      length: name.length,
+    });
+  });
+
+  return symbols;
+};
+
+/**
+ * Names an element is referred to by in arrows: its alias if it has one, otherwise its name
+ * when that is a plain word.
+ */
+export const symbolReference = (symbol: DocumentSymbol): string | null => {
+  if (symbol.alias && /^[\p{L}_][\p{L}\p{N}_.]*$/u.test(symbol.alias)) return symbol.alias;
+  if (/^[\p{L}_][\p{L}\p{N}_.]*$/u.test(symbol.name)) return symbol.name;
+  return null;
+};
+
+/**
+ * Plain names used on either side of arrows, including elements never declared explicitly.
+ */
+export const collectArrowEndpoints = (lines: Token[][]): string[] => {
+  const names = new Set<string>();
+  lines.forEach(lineTokens => {
+    const tokens = lineTokens.filter(token => token.type !== 'whitespace');
+    tokens.forEach((token, i) => {
+      if (token.type !== 'arrow') return;
+      const before = tokens[i - 1];
+      const after = tokens[i + 1];
+      if (before?.type === 'identifier') names.add(before.text);
+      if (after?.type === 'identifier') names.add(after.text);
+    });
+  });
+  return Array.from(names);
+};